@@ -0,0 +1,17 @@
+import { vi } from "vitest";
+
+// The parts of Obsidian's runtime API the tested modules load; requestUrl
+// is mocked per test
+export const requestUrl = vi.fn();
+
+export class Notice {
+  constructor(public message: string) {}
+}
+
+export class Component {}
+
+export class TFile {}
+
+export function normalizePath(path: string): string {
+  return path.replace(/\\/g, "/").replace(/\/+/g, "/").replace(/^\/|\/$/g, "");
+}
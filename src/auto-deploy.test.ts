@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { isWithinQuietHours, parseTimeOfDay } from "./auto-deploy";
+
+const at = (hours: number, minutes: number) => new Date(2026, 0, 15, hours, minutes);
+
+describe("parseTimeOfDay", () => {
+  it("reads HH:MM times as minutes since midnight", () => {
+    expect(parseTimeOfDay("00:00")).toBe(0);
+    expect(parseTimeOfDay(" 7:30 ")).toBe(450);
+    expect(parseTimeOfDay("23:59")).toBe(1439);
+  });
+
+  it("rejects anything else", () => {
+    expect(parseTimeOfDay("24:00")).toBeNull();
+    expect(parseTimeOfDay("12:60")).toBeNull();
+    expect(parseTimeOfDay("7pm")).toBeNull();
+    expect(parseTimeOfDay("")).toBeNull();
+  });
+});
+
+describe("isWithinQuietHours", () => {
+  it("covers a range within one day, including its start but not its end", () => {
+    expect(isWithinQuietHours(at(12, 59), "13:00", "14:00")).toBe(false);
+    expect(isWithinQuietHours(at(13, 0), "13:00", "14:00")).toBe(true);
+    expect(isWithinQuietHours(at(13, 59), "13:00", "14:00")).toBe(true);
+    expect(isWithinQuietHours(at(14, 0), "13:00", "14:00")).toBe(false);
+  });
+
+  it("wraps past midnight", () => {
+    expect(isWithinQuietHours(at(21, 59), "22:00", "07:00")).toBe(false);
+    expect(isWithinQuietHours(at(22, 0), "22:00", "07:00")).toBe(true);
+    expect(isWithinQuietHours(at(0, 0), "22:00", "07:00")).toBe(true);
+    expect(isWithinQuietHours(at(6, 59), "22:00", "07:00")).toBe(true);
+    expect(isWithinQuietHours(at(7, 0), "22:00", "07:00")).toBe(false);
+    expect(isWithinQuietHours(at(12, 0), "22:00", "07:00")).toBe(false);
+  });
+
+  it("has no quiet hours for invalid or equal times", () => {
+    expect(isWithinQuietHours(at(23, 0), "22:00", "")).toBe(false);
+    expect(isWithinQuietHours(at(23, 0), "late", "07:00")).toBe(false);
+    expect(isWithinQuietHours(at(22, 0), "22:00", "22:00")).toBe(false);
+  });
+});
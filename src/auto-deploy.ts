@@ -0,0 +1,160 @@
+import { App, Component, TAbstractFile } from "obsidian";
+import { CommandHandlers } from "./cli/handlers";
+import { readDeployState, getPendingFiles } from "./utils/deploy-state";
+import { readLeafpressConfig } from "./utils/config";
+import { LeafpressPluginSettings } from "./settings";
+
+// How often the schedule is checked
+const TICK_MS = 30 * 1000;
+
+/**
+ * Minutes since midnight for an "HH:MM" time, or null if it isn't one
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether a time falls within quiet hours from start to end ("HH:MM"), which
+ * may wrap past midnight (e.g. 22:00 to 07:00). Invalid or equal times mean
+ * no quiet hours.
+ */
+export function isWithinQuietHours(now: Date, start: string, end: string): boolean {
+  const startMinutes = parseTimeOfDay(start);
+  const endMinutes = parseTimeOfDay(end);
+  if (startMinutes === null || endMinutes === null || startMinutes === endMinutes) return false;
+
+  const current = now.getHours() * 60 + now.getMinutes();
+  return startMinutes < endMinutes
+    ? current >= startMinutes && current < endMinutes
+    : current >= startMinutes || current < endMinutes;
+}
+
+/**
+ * Deploys pending changes on the schedule chosen in settings: on an
+ * interval, at set times of day, or once edits have settled
+ */
+export class AutoDeployScheduler extends Component {
+  private app: App;
+  private settings: LeafpressPluginSettings;
+  private commandHandlers: CommandHandlers;
+  private lastTick = Date.now();
+  private lastAttempt = Date.now();
+  private lastEdit: number | null = null;
+  private running = false;
+
+  constructor(app: App, settings: LeafpressPluginSettings, commandHandlers: CommandHandlers) {
+    super();
+    this.app = app;
+    this.settings = settings;
+    this.commandHandlers = commandHandlers;
+  }
+
+  onload(): void {
+    const onEdit = (file: TAbstractFile) => {
+      if (file.path.endsWith(".md") || file.path === "leafpress.json") {
+        this.lastEdit = Date.now();
+      }
+    };
+    this.registerEvent(this.app.vault.on("modify", onEdit));
+    this.registerEvent(this.app.vault.on("create", onEdit));
+    this.registerEvent(this.app.vault.on("delete", onEdit));
+    this.registerEvent(this.app.vault.on("rename", onEdit));
+
+    this.registerInterval(
+      window.setInterval(() => {
+        void this.tick();
+      }, TICK_MS)
+    );
+  }
+
+  /**
+   * Start counting from now after the schedule changes in settings, so a
+   * new interval doesn't fire straight away
+   */
+  reset(): void {
+    this.lastTick = Date.now();
+    this.lastAttempt = Date.now();
+  }
+
+  private async tick(): Promise<void> {
+    // Wait for the current build or deploy; anything due is picked up next tick
+    if (this.running || this.commandHandlers.isBusy()) return;
+
+    const now = new Date();
+    const since = this.lastTick;
+    this.lastTick = now.getTime();
+
+    if (this.settings.autoDeployMode === "off") return;
+    if (this.isQuietTime(now)) return;
+    if (!this.isDue(now, since)) return;
+
+    this.running = true;
+    try {
+      this.lastAttempt = now.getTime();
+      if (await this.hasPendingChanges()) {
+        await this.commandHandlers.autoDeploy();
+      }
+    } catch (err) {
+      console.error("[leafpress] Automatic deploy error:", err);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private isDue(now: Date, since: number): boolean {
+    const { settings } = this;
+
+    switch (settings.autoDeployMode) {
+      case "interval":
+        return now.getTime() - this.lastAttempt >= settings.autoDeployIntervalMinutes * 60 * 1000;
+
+      case "times":
+        // Due if a scheduled time passed since the previous check
+        return settings.autoDeployTimes.split(",").some((value) => {
+          const minutes = parseTimeOfDay(value);
+          if (minutes === null) return false;
+          const scheduled = new Date(now);
+          scheduled.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+          return scheduled.getTime() > since && scheduled.getTime() <= now.getTime();
+        });
+
+      case "after-edit":
+        return (
+          this.lastEdit !== null &&
+          this.lastEdit > this.lastAttempt &&
+          now.getTime() - this.lastEdit >= settings.autoDeployIdleMinutes * 60 * 1000
+        );
+
+      default:
+        return false;
+    }
+  }
+
+  private isQuietTime(now: Date): boolean {
+    return (
+      this.settings.quietHoursEnabled &&
+      isWithinQuietHours(now, this.settings.quietHoursStart, this.settings.quietHoursEnd)
+    );
+  }
+
+  /**
+   * Only deploy sites that were deployed before and have changed since.
+   * The first deploy needs interactive setup, so it's always manual.
+   */
+  private async hasPendingChanges(): Promise<boolean> {
+    const config = await readLeafpressConfig(this.app);
+    if (!config?.deploy?.provider) return false;
+
+    const deployState = await readDeployState(this.app);
+    if (!deployState?.lastDeploy) return false;
+
+    const pending = await getPendingFiles(this.app, deployState.lastDeploy.sourceFiles ?? {});
+    return pending.length > 0;
+  }
+}
@@ -0,0 +1,155 @@
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import { RunLog } from "./cli/run-log";
+import { CommandRun } from "./cli/types";
+
+export const VIEW_TYPE_BUILD_LOG = "leafpress-build-log";
+
+export class BuildLogView extends ItemView {
+  private runLog: RunLog;
+  private selectedRunId: number | null = null;
+  private renderedLines = 0;
+  private unsubscribe: (() => void) | null = null;
+  private statusEl: HTMLElement | null = null;
+  private outputEl: HTMLElement | null = null;
+
+  constructor(leaf: WorkspaceLeaf, runLog: RunLog) {
+    super(leaf);
+    this.runLog = runLog;
+  }
+
+  getViewType() {
+    return VIEW_TYPE_BUILD_LOG;
+  }
+
+  getDisplayText() {
+    return "Build log";
+  }
+
+  getIcon() {
+    return "scroll-text";
+  }
+
+  onOpen(): Promise<void> {
+    this.unsubscribe = this.runLog.onChange((run) => {
+      if (run.id !== this.selectedRunId && !run.finishedAt && run.lines.length === 0) {
+        // A new run started: follow it
+        this.selectedRunId = run.id;
+        this.render();
+      } else if (run.id === this.selectedRunId) {
+        this.update(run);
+      } else {
+        this.render();
+      }
+    });
+
+    // Tick elapsed time while a run is in progress
+    this.registerInterval(
+      window.setInterval(() => {
+        const run = this.getSelectedRun();
+        if (run && !run.finishedAt) {
+          this.renderStatus(run);
+        }
+      }, 1000)
+    );
+
+    this.render();
+    return Promise.resolve();
+  }
+
+  onClose(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    return Promise.resolve();
+  }
+
+  private getSelectedRun(): CommandRun | undefined {
+    if (this.selectedRunId === null) return undefined;
+    return this.runLog.getRun(this.selectedRunId);
+  }
+
+  private render(): void {
+    const container = this.containerEl.children[1];
+    container.empty();
+    const content = container.createEl("div", { cls: "leafpress-build-log" });
+
+    const runs = this.runLog.getRuns();
+    if (runs.length === 0) {
+      content.createEl("p", {
+        text: "No builds or deploys have run yet.",
+        cls: "leafpress-empty-state",
+      });
+      this.statusEl = null;
+      this.outputEl = null;
+      return;
+    }
+
+    if (this.selectedRunId === null || !this.getSelectedRun()) {
+      this.selectedRunId = runs[0].id;
+    }
+
+    const select = content.createEl("select", { cls: "dropdown leafpress-build-log-select" });
+    for (const run of runs) {
+      select.createEl("option", {
+        text: `${new Date(run.startedAt).toLocaleTimeString()} · ${run.command} · ${this.describeResult(run)}`,
+        attr: { value: String(run.id) },
+      });
+    }
+    select.value = String(this.selectedRunId);
+    select.addEventListener("change", () => {
+      this.selectedRunId = Number(select.value);
+      this.render();
+    });
+
+    this.statusEl = content.createEl("div", { cls: "leafpress-build-log-status" });
+    this.outputEl = content.createEl("pre", { cls: "leafpress-build-log-output" });
+    this.renderedLines = 0;
+
+    const run = this.getSelectedRun();
+    if (run) this.update(run);
+  }
+
+  private update(run: CommandRun): void {
+    if (!this.outputEl) {
+      this.render();
+      return;
+    }
+
+    this.renderStatus(run);
+
+    const outputEl = this.outputEl;
+    const atBottom = outputEl.scrollTop + outputEl.clientHeight >= outputEl.scrollHeight - 4;
+
+    for (const line of run.lines.slice(this.renderedLines)) {
+      outputEl.createEl("div", {
+        text: line.text,
+        cls: line.stream === "stderr" ? "leafpress-build-log-stderr" : "leafpress-build-log-stdout",
+      });
+    }
+    this.renderedLines = run.lines.length;
+
+    // Keep following the output unless the user scrolled up
+    if (atBottom) {
+      outputEl.scrollTop = outputEl.scrollHeight;
+    }
+  }
+
+  private renderStatus(run: CommandRun): void {
+    if (!this.statusEl) return;
+    this.statusEl.empty();
+
+    this.statusEl.createEl("strong", { text: `leafpress ${run.args.join(" ")}` });
+    const elapsed = ((run.finishedAt ?? Date.now()) - run.startedAt) / 1000;
+    this.statusEl.createEl("span", { text: ` · ${elapsed.toFixed(1)}s · ` });
+
+    const resultEl = this.statusEl.createEl("span", { text: this.describeResult(run) });
+    if (run.finishedAt && !run.cancelled) {
+      resultEl.addClass(run.exitCode === 0 ? "leafpress-success-text" : "leafpress-error-text");
+    }
+  }
+
+  private describeResult(run: CommandRun): string {
+    if (!run.finishedAt) return "Running";
+    if (run.cancelled) return "Cancelled";
+    return `Exit code ${run.exitCode}`;
+  }
+}
@@ -0,0 +1,175 @@
+import { App, Component, Notice, TAbstractFile } from "obsidian";
+import { CommandHandlers } from "./cli/handlers";
+import { loadPublishRules, getSkipReason, PublishRules } from "./utils/publish";
+import { LeafpressPluginSettings } from "./settings";
+
+export type WatchState = "off" | "idle" | "pending" | "building";
+
+export interface WatchBuildResult {
+  finishedAt: number;
+  success: boolean;
+  cancelled: boolean;
+  problems: number;
+}
+
+/**
+ * Rebuilds the site shortly after notes, leafpress.json, style.css or
+ * static files change, so the output folder keeps up with the vault
+ */
+export class BuildWatcher extends Component {
+  private app: App;
+  private settings: LeafpressPluginSettings;
+  private commandHandlers: CommandHandlers;
+  private saveSettings: () => Promise<void>;
+  private rules: PublishRules | null = null;
+  private timer: number | null = null;
+  private building = false;
+  private lastResult: WatchBuildResult | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor(
+    app: App,
+    settings: LeafpressPluginSettings,
+    commandHandlers: CommandHandlers,
+    saveSettings: () => Promise<void>
+  ) {
+    super();
+    this.app = app;
+    this.settings = settings;
+    this.commandHandlers = commandHandlers;
+    this.saveSettings = saveSettings;
+  }
+
+  onload(): void {
+    const onChange = (file: TAbstractFile, oldPath?: string) => {
+      if (file.path === "leafpress.json") {
+        // Ignore patterns may have changed
+        this.rules = null;
+      }
+      if (this.isSource(file.path) || (oldPath !== undefined && this.isSource(oldPath))) {
+        void this.schedule();
+      }
+    };
+    this.registerEvent(this.app.vault.on("modify", (file) => onChange(file)));
+    this.registerEvent(this.app.vault.on("create", (file) => onChange(file)));
+    this.registerEvent(this.app.vault.on("delete", (file) => onChange(file)));
+    this.registerEvent(this.app.vault.on("rename", (file, oldPath) => onChange(file, oldPath)));
+  }
+
+  onunload(): void {
+    this.clearTimer();
+    this.listeners.clear();
+  }
+
+  isEnabled(): boolean {
+    return this.settings.watchMode;
+  }
+
+  getState(): WatchState {
+    if (!this.settings.watchMode) return "off";
+    if (this.building) return "building";
+    if (this.timer !== null) return "pending";
+    return "idle";
+  }
+
+  getLastResult(): WatchBuildResult | null {
+    return this.lastResult;
+  }
+
+  /**
+   * Subscribe to watch state changes. Returns a function that unsubscribes.
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Turn watch mode on or off and save the setting
+   */
+  async setEnabled(enabled: boolean): Promise<void> {
+    this.settings.watchMode = enabled;
+    await this.saveSettings();
+    this.applySettings();
+    new Notice(enabled ? "Watch mode on: the site rebuilds when notes change" : "Watch mode off");
+  }
+
+  /**
+   * Apply the watch mode setting after it changed
+   */
+  applySettings(): void {
+    if (!this.settings.watchMode) {
+      this.clearTimer();
+    }
+    this.notify();
+  }
+
+  private isSource(path: string): boolean {
+    if (path === "leafpress.json" || path === "style.css" || path.startsWith("static/")) {
+      return true;
+    }
+    if (!path.endsWith(".md")) return false;
+    // Until the rules load, count every note; a spare build is harmless
+    return this.rules === null || getSkipReason(path, this.rules) === null;
+  }
+
+  private async schedule(): Promise<void> {
+    if (!this.settings.watchMode) return;
+
+    this.clearTimer();
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      void this.build();
+    }, this.settings.watchDebounceSeconds * 1000);
+    this.notify();
+
+    if (this.rules === null) {
+      this.rules = await loadPublishRules(this.app);
+    }
+  }
+
+  private async build(): Promise<void> {
+    if (!this.settings.watchMode) return;
+
+    // Another build or deploy is running: try again once it's had time to finish
+    if (this.building || this.commandHandlers.isBusy()) {
+      void this.schedule();
+      return;
+    }
+
+    this.building = true;
+    this.notify();
+    try {
+      const run = await this.commandHandlers.buildQuietly();
+      this.lastResult = {
+        finishedAt: run.finishedAt ?? Date.now(),
+        success: run.exitCode === 0 && !run.cancelled,
+        cancelled: !!run.cancelled,
+        problems: run.diagnostics?.length ?? 0,
+      };
+    } catch (err) {
+      console.error("[leafpress] Watch build error:", err);
+      this.lastResult = { finishedAt: Date.now(), success: false, cancelled: false, problems: 0 };
+    } finally {
+      this.building = false;
+      this.notify();
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (err) {
+        console.error("[leafpress] Build watch listener error:", err);
+      }
+    }
+  }
+}
@@ -0,0 +1,276 @@
+import { requestUrl } from "obsidian";
+import { blake3 } from "@noble/hashes/blake3";
+import { bytesToHex } from "@noble/hashes/utils";
+import * as crypto from "crypto";
+import { promises as fs } from "fs";
+import * as path from "path";
+import { CloudflarePagesSettings } from "./types";
+import { getContentType, listSiteFiles } from "./export";
+
+const API_BASE = "https://api.cloudflare.com/client/v4";
+
+// Sent with the deployment as its configuration rather than as assets
+const CONFIG_FILES = ["_headers", "_redirects"];
+
+// Limits of the Pages upload API
+const MAX_FILE_BYTES = 25 * 1024 * 1024;
+const MAX_FILES = 20000;
+// Each upload request carries files base64-encoded, up to these totals
+const MAX_BUCKET_BYTES = 40 * 1024 * 1024;
+const MAX_BUCKET_FILES = 1000;
+
+// Upload tokens last a few minutes; a new one is fetched before then
+const UPLOAD_TOKEN_LIFETIME_MS = 4 * 60 * 1000;
+
+export interface CloudflareDeployResult {
+  uploaded: number;
+  unchanged: number;
+  // Address of this deployment, e.g. https://1a2b3c4d.my-site.pages.dev
+  url: string | null;
+  cancelled: boolean;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  errors?: { code: number; message: string }[];
+  result: T;
+}
+
+interface SiteAsset {
+  file: string;
+  hash: string;
+  // Size once base64-encoded for upload
+  encodedSize: number;
+}
+
+/**
+ * Thrown for requests the Cloudflare API refused, with its HTTP status
+ */
+export class CloudflareError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Key Pages stores an asset under: a BLAKE3 hash of its base64 content and
+ * extension, as the Pages tooling computes it, so unchanged files are found
+ * in earlier deployments and skipped
+ */
+export function hashAsset(content: Buffer, file: string): string {
+  return bytesToHex(blake3(content.toString("base64") + path.extname(file).slice(1))).slice(0, 32);
+}
+
+/**
+ * A multipart/form-data body, the format the deployments endpoint takes
+ */
+export function buildFormData(fields: { name: string; value: string | Buffer; filename?: string }[]): {
+  body: ArrayBuffer;
+  contentType: string;
+} {
+  const boundary = `----leafpress${crypto.randomBytes(12).toString("hex")}`;
+  const parts: Buffer[] = [];
+  for (const field of fields) {
+    const disposition =
+      `form-data; name="${field.name}"` + (field.filename !== undefined ? `; filename="${field.filename}"` : "");
+    const headers =
+      `--${boundary}\r\nContent-Disposition: ${disposition}\r\n` +
+      (field.filename !== undefined ? "Content-Type: application/octet-stream\r\n" : "") +
+      "\r\n";
+    parts.push(Buffer.from(headers, "utf8"), Buffer.from(field.value), Buffer.from("\r\n", "utf8"));
+  }
+  parts.push(Buffer.from(`--${boundary}--\r\n`, "utf8"));
+  const body = Buffer.concat(parts);
+  return {
+    body: body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength),
+    contentType: `multipart/form-data; boundary=${boundary}`,
+  };
+}
+
+/**
+ * Call the Cloudflare API, resolving with the result of a successful call
+ */
+async function callApi<T>(
+  method: "GET" | "POST",
+  endpoint: string,
+  token: string,
+  body: { json?: unknown; form?: { body: ArrayBuffer; contentType: string } } = {}
+): Promise<T> {
+  let contentType: string | undefined;
+  let payload: string | ArrayBuffer | undefined;
+  if (body.form) {
+    contentType = body.form.contentType;
+    payload = body.form.body;
+  } else if (body.json !== undefined) {
+    contentType = "application/json";
+    payload = JSON.stringify(body.json);
+  }
+
+  const response = await requestUrl({
+    url: `${API_BASE}${endpoint}`,
+    method,
+    headers: { Authorization: `Bearer ${token}`, ...(contentType ? { "Content-Type": contentType } : {}) },
+    body: payload,
+    throw: false,
+  });
+
+  let data: ApiResponse<T> | null = null;
+  try {
+    data = JSON.parse(response.text) as ApiResponse<T>;
+  } catch {
+    // Not JSON, e.g. an error page from a proxy
+  }
+  if (response.status >= 300 || !data?.success) {
+    const error = data?.errors?.[0];
+    throw new CloudflareError(
+      response.status,
+      `Cloudflare refused ${method} ${endpoint}: HTTP ${response.status}${error ? ` (${error.message})` : ""}`
+    );
+  }
+  return data.result;
+}
+
+/**
+ * Create the Pages project unless it exists, publishing production from main
+ */
+async function ensureProject(
+  settings: Partial<CloudflarePagesSettings>,
+  token: string,
+  onOutput: (line: string) => void
+): Promise<void> {
+  const projects = `/accounts/${settings.accountId}/pages/projects`;
+  try {
+    await callApi("GET", `${projects}/${settings.project}`, token);
+  } catch (err) {
+    if (!(err instanceof CloudflareError) || err.status !== 404) throw err;
+    onOutput(`Creating Pages project ${settings.project}`);
+    await callApi("POST", projects, token, { json: { name: settings.project, production_branch: "main" } });
+  }
+}
+
+/**
+ * Group assets into upload requests within the API's limits
+ */
+function toBuckets(assets: SiteAsset[]): SiteAsset[][] {
+  const buckets: SiteAsset[][] = [];
+  let bucket: SiteAsset[] = [];
+  let size = 0;
+  for (const asset of assets) {
+    if (bucket.length > 0 && (bucket.length >= MAX_BUCKET_FILES || size + asset.encodedSize > MAX_BUCKET_BYTES)) {
+      buckets.push(bucket);
+      bucket = [];
+      size = 0;
+    }
+    bucket.push(asset);
+    size += asset.encodedSize;
+  }
+  if (bucket.length > 0) buckets.push(bucket);
+  return buckets;
+}
+
+/**
+ * Publish a built site (absolute siteDir) as a new Pages deployment with the
+ * direct upload API: only files no earlier deployment had are uploaded.
+ * Creates the project on the first deploy. isCancelled is checked between
+ * requests.
+ */
+export async function deployToCloudflare(
+  siteDir: string,
+  settings: Partial<CloudflarePagesSettings>,
+  token: string,
+  onOutput: (line: string) => void,
+  isCancelled: () => boolean
+): Promise<CloudflareDeployResult> {
+  if (!settings.accountId || !settings.project) {
+    throw new Error("Set the Cloudflare account ID and project first");
+  }
+  const result: CloudflareDeployResult = { uploaded: 0, unchanged: 0, url: null, cancelled: false };
+
+  const files = await listSiteFiles(siteDir);
+  const assetFiles = files.filter((file) => !CONFIG_FILES.includes(file));
+  if (assetFiles.length > MAX_FILES) {
+    throw new Error(`Cloudflare Pages takes at most ${MAX_FILES} files; the site has ${assetFiles.length}`);
+  }
+
+  const manifest: Record<string, string> = {};
+  const assets = new Map<string, SiteAsset>();
+  for (const file of assetFiles) {
+    const content = await fs.readFile(path.join(siteDir, file));
+    if (content.length > MAX_FILE_BYTES) {
+      throw new Error(`${file} is larger than the 25 MiB Cloudflare Pages takes`);
+    }
+    const hash = hashAsset(content, file);
+    manifest[`/${file}`] = hash;
+    // Identical files share one upload
+    if (!assets.has(hash)) assets.set(hash, { file, hash, encodedSize: Math.ceil(content.length / 3) * 4 });
+  }
+
+  onOutput(`Comparing ${assetFiles.length} file(s) with Pages project ${settings.project}`);
+  await ensureProject(settings, token, onOutput);
+
+  let uploadToken: { jwt: string; fetchedAt: number } | null = null;
+  const getUploadToken = async (): Promise<string> => {
+    if (uploadToken === null || Date.now() - uploadToken.fetchedAt > UPLOAD_TOKEN_LIFETIME_MS) {
+      const { jwt } = await callApi<{ jwt: string }>(
+        "GET",
+        `/accounts/${settings.accountId}/pages/projects/${settings.project}/upload-token`,
+        token
+      );
+      uploadToken = { jwt, fetchedAt: Date.now() };
+    }
+    return uploadToken.jwt;
+  };
+
+  if (isCancelled()) return { ...result, cancelled: true };
+  const hashes = [...assets.keys()];
+  const missing = new Set(
+    await callApi<string[]>("POST", "/pages/assets/check-missing", await getUploadToken(), { json: { hashes } })
+  );
+
+  for (const bucket of toBuckets(hashes.filter((hash) => missing.has(hash)).map((hash) => assets.get(hash)))) {
+    if (isCancelled()) return { ...result, cancelled: true };
+
+    const payload = [];
+    for (const asset of bucket) {
+      onOutput(`Uploading ${asset.file}`);
+      payload.push({
+        key: asset.hash,
+        value: (await fs.readFile(path.join(siteDir, asset.file))).toString("base64"),
+        // A bare media type, as the Pages tooling sends
+        metadata: { contentType: getContentType(asset.file).split(";")[0] },
+        base64: true,
+      });
+    }
+    await callApi("POST", "/pages/assets/upload", await getUploadToken(), { json: payload });
+    result.uploaded += bucket.length;
+  }
+  result.unchanged = hashes.length - result.uploaded;
+
+  // Marks every asset as used, so earlier uploads aren't cleaned up
+  await callApi("POST", "/pages/assets/upsert-hashes", await getUploadToken(), { json: { hashes } });
+  if (isCancelled()) return { ...result, cancelled: true };
+
+  const fields: { name: string; value: string | Buffer; filename?: string }[] = [
+    { name: "manifest", value: JSON.stringify(manifest) },
+  ];
+  const branch = (settings.branch ?? "").trim();
+  if (branch) fields.push({ name: "branch", value: branch });
+  for (const file of CONFIG_FILES) {
+    if (files.includes(file)) {
+      fields.push({ name: file, value: await fs.readFile(path.join(siteDir, file)), filename: file });
+    }
+  }
+
+  onOutput("Creating deployment");
+  const deployment = await callApi<{ url?: string }>(
+    "POST",
+    `/accounts/${settings.accountId}/pages/projects/${settings.project}/deployments`,
+    token,
+    { form: buildFormData(fields) }
+  );
+  result.url = deployment.url ?? null;
+  return result;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { parseDiagnostics } from "./diagnostics";
+import { RunLogLine } from "./types";
+
+const stdout = (text: string): RunLogLine => ({ stream: "stdout", text });
+const stderr = (text: string): RunLogLine => ({ stream: "stderr", text });
+
+describe("parseDiagnostics", () => {
+  it("reads the severity marker and the note's location", () => {
+    expect(parseDiagnostics([stdout("error: notes/foo.md:12:4: broken wikilink [[Missing]]")])).toEqual([
+      { severity: "error", kind: "broken-link", message: "broken wikilink [[Missing]]", file: "notes/foo.md", line: 12 },
+    ]);
+    expect(parseDiagnostics([stdout("[WARN] notes/bar.md - invalid frontmatter on line 3")])).toEqual([
+      { severity: "warning", kind: "frontmatter", message: "invalid frontmatter on line 3", file: "notes/bar.md", line: 3 },
+    ]);
+    expect(parseDiagnostics([stdout("⚠ image not found: photo.png")])).toEqual([
+      { severity: "warning", kind: "missing-image", message: "image not found: photo.png" },
+    ]);
+  });
+
+  it("keeps stderr lines that point at a note and skips other output", () => {
+    const diagnostics = parseDiagnostics([
+      stdout("Building 42 pages"),
+      stdout("Wrote notes/foo.md"),
+      stderr("notes/foo.md: could not parse"),
+      stderr("Something went wrong"),
+    ]);
+    expect(diagnostics).toEqual([{ severity: "error", kind: "other", message: "could not parse", file: "notes/foo.md" }]);
+  });
+
+  it("makes paths relative to the vault", () => {
+    const [diagnostic] = parseDiagnostics([stdout("error: /home/me/vault/notes/foo.md:7 bad yaml")], "/home/me/vault/");
+    expect(diagnostic.file).toBe("notes/foo.md");
+    expect(diagnostic.line).toBe(7);
+  });
+
+  it("finds note paths with spaces", () => {
+    const exists = (file: string) => file === "Daily Notes/my note.md";
+    const [diagnostic] = parseDiagnostics([stdout("error: Daily Notes/my note.md:2 broken link")], "", exists);
+    expect(diagnostic.file).toBe("Daily Notes/my note.md");
+  });
+
+  it("reports repeated lines once", () => {
+    const line = stdout("warning: notes/foo.md: broken link");
+    expect(parseDiagnostics([line, line])).toHaveLength(1);
+  });
+});
@@ -0,0 +1,124 @@
+import { BuildDiagnostic, DiagnosticKind, DiagnosticSeverity, RunLogLine } from "./types";
+
+// Leading severity marker, e.g. "error:", "[WARN]", "warning -", "✗", "⚠"
+const SEVERITY_PATTERN = /^\s*(?:\[\s*)?(error|err|fatal|warning|warn|✗|⚠️?)(?=[\s:\]-]|$)(?:\s*\])?\s*[:-]?\s*/i;
+
+// Source file reference, e.g. "notes/foo.md", "notes/foo.md:12" or "notes/foo.md:12:4"
+const FILE_PATTERN = /((?:[A-Za-z]:)?[^\s"'`:()[\]]*?[^\s"'`:()[\]/]+\.md)(?::(\d+))?(?::\d+)?/;
+
+// "line 12" style references when the line isn't attached to the path
+const LINE_PATTERN = /\bline\s+(\d+)\b/i;
+
+function parseSeverity(marker: string): DiagnosticSeverity {
+  const lower = marker.toLowerCase();
+  return lower.startsWith("warn") || lower.startsWith("⚠") ? "warning" : "error";
+}
+
+function classify(message: string): DiagnosticKind {
+  const lower = message.toLowerCase();
+  if (lower.includes("wikilink") || lower.includes("wiki link") || lower.includes("broken link") || lower.includes("[[")) {
+    return "broken-link";
+  }
+  if (lower.includes("frontmatter") || lower.includes("front matter") || lower.includes("yaml")) {
+    return "frontmatter";
+  }
+  if (lower.includes("image") || /\.(png|jpe?g|gif|svg|webp|avif)\b/.test(lower)) {
+    return "missing-image";
+  }
+  return "other";
+}
+
+/**
+ * Turn a path printed by the CLI into a vault-relative path
+ */
+function normalizePath(filePath: string, vaultPath: string): string {
+  let normalized = filePath.replace(/\\/g, "/");
+  const base = vaultPath.replace(/\\/g, "/").replace(/\/$/, "");
+  if (base && normalized.startsWith(base + "/")) {
+    normalized = normalized.substring(base.length + 1);
+  }
+  return normalized.replace(/^\.?\//, "");
+}
+
+/**
+ * The path pattern stops at whitespace, so "notes/my note.md" only matches
+ * "note.md". Walk back over the preceding words until the path exists.
+ */
+function expandPath(
+  text: string,
+  matchIndex: number,
+  filePath: string,
+  vaultPath: string,
+  fileExists: (path: string) => boolean
+): string {
+  let candidate = normalizePath(filePath, vaultPath);
+  if (fileExists(candidate)) return candidate;
+
+  const words = text.substring(0, matchIndex).split(" ");
+  // The match starts right after a space, so the last element is empty
+  words.pop();
+  let prefix = "";
+  while (words.length > 0) {
+    prefix = `${words.pop()} ${prefix}`;
+    candidate = normalizePath(prefix.replace(/^["'`(]/, "") + filePath, vaultPath);
+    if (fileExists(candidate)) return candidate;
+  }
+  return normalizePath(filePath, vaultPath);
+}
+
+/**
+ * Parse errors and warnings out of CLI output. Lines are picked up when they
+ * carry a severity marker, or when they come from stderr and point at a note.
+ * fileExists is used to resolve note paths that contain spaces.
+ */
+export function parseDiagnostics(
+  lines: RunLogLine[],
+  vaultPath: string = "",
+  fileExists: (path: string) => boolean = () => false
+): BuildDiagnostic[] {
+  const diagnostics: BuildDiagnostic[] = [];
+  const seen = new Set<string>();
+
+  for (const { text, stream } of lines) {
+    const trimmed = text.trim();
+    if (!trimmed) continue;
+
+    const severityMatch = trimmed.match(SEVERITY_PATTERN);
+    const fileMatch = trimmed.match(FILE_PATTERN);
+
+    if (!severityMatch && !(stream === "stderr" && fileMatch)) {
+      continue;
+    }
+
+    const severity: DiagnosticSeverity = severityMatch
+      ? parseSeverity(severityMatch[1])
+      : "error";
+    let message = severityMatch ? trimmed.substring(severityMatch[0].length) : trimmed;
+
+    const diagnostic: BuildDiagnostic = {
+      severity,
+      kind: classify(message),
+      message,
+    };
+
+    if (fileMatch) {
+      diagnostic.file = expandPath(trimmed, fileMatch.index ?? 0, fileMatch[1], vaultPath, fileExists);
+      const lineNumber = fileMatch[2] ?? message.match(LINE_PATTERN)?.[1];
+      if (lineNumber) {
+        diagnostic.line = parseInt(lineNumber, 10);
+      }
+      // Drop a leading "path:line:" prefix, the location is shown separately
+      if (message.startsWith(fileMatch[0])) {
+        message = message.substring(fileMatch[0].length).replace(/^\s*[:-]?\s*/, "");
+        diagnostic.message = message || trimmed;
+      }
+    }
+
+    const key = `${diagnostic.severity}|${diagnostic.file ?? ""}|${diagnostic.line ?? ""}|${diagnostic.message}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    diagnostics.push(diagnostic);
+  }
+
+  return diagnostics;
+}
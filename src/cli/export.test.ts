@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as zlib from "zlib";
+import { exportSite, rewriteBasePath } from "./export";
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  content: Buffer;
+}
+
+/**
+ * Read a zip through its central directory, checking every entry against
+ * its local header and CRC
+ */
+function readZip(zip: Buffer): ZipEntry[] {
+  const end = zip.length - 22;
+  expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+  const count = zip.readUInt16LE(end + 10);
+  const directorySize = zip.readUInt32LE(end + 12);
+  const directoryOffset = zip.readUInt32LE(end + 16);
+  expect(directoryOffset + directorySize).toBe(end);
+
+  const entries: ZipEntry[] = [];
+  let position = directoryOffset;
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(position)).toBe(0x02014b50);
+    const flags = zip.readUInt16LE(position + 8);
+    const method = zip.readUInt16LE(position + 10);
+    const crc = zip.readUInt32LE(position + 16);
+    const compressedSize = zip.readUInt32LE(position + 20);
+    const size = zip.readUInt32LE(position + 24);
+    const nameLength = zip.readUInt16LE(position + 28);
+    const localOffset = zip.readUInt32LE(position + 42);
+    const name = zip.toString("utf8", position + 46, position + 46 + nameLength);
+    expect(flags & 0x0800).toBe(0x0800);
+
+    expect(zip.readUInt32LE(localOffset)).toBe(0x04034b50);
+    expect(zip.readUInt32LE(localOffset + 14)).toBe(crc);
+    expect(zip.toString("utf8", localOffset + 30, localOffset + 30 + nameLength)).toBe(name);
+    const dataStart = localOffset + 30 + nameLength + zip.readUInt16LE(localOffset + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+    const content = method === 8 ? zlib.inflateRawSync(data) : Buffer.from(data);
+    expect(content.length).toBe(size);
+    expect(zlib.crc32(content)).toBe(crc);
+
+    entries.push({ name, method, content });
+    position += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe("exportSite", () => {
+  let tempDir: string;
+  let siteDir: string;
+  const page = `<html><body>${"<p>Hello</p>".repeat(50)}<a href="/notes/a/">A</a></body></html>`;
+  const image = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 0, 0, 0]);
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "leafpress-export-"));
+    siteDir = path.join(tempDir, "_site");
+    await fs.mkdir(path.join(siteDir, "notes", "ünïcode"), { recursive: true });
+    await fs.writeFile(path.join(siteDir, "index.html"), page);
+    await fs.writeFile(path.join(siteDir, "notes", "ünïcode", "logo.png"), image);
+    await fs.writeFile(path.join(siteDir, "empty.txt"), "");
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("writes a zip with every file of the site", async () => {
+    const zipPath = path.join(tempDir, "out", "site.zip");
+    expect(await exportSite(siteDir, { format: "zip", path: zipPath })).toBe(3);
+
+    const entries = readZip(await fs.readFile(zipPath));
+    const byName = new Map(entries.map((entry) => [entry.name, entry]));
+    expect([...byName.keys()].sort()).toEqual(["empty.txt", "index.html", "notes/ünïcode/logo.png"]);
+
+    // Text is deflated, images are stored as they are
+    expect(byName.get("index.html")?.method).toBe(8);
+    expect(byName.get("index.html")?.content.toString("utf8")).toBe(page);
+    expect(byName.get("notes/ünïcode/logo.png")?.method).toBe(0);
+    expect(byName.get("notes/ünïcode/logo.png")?.content).toEqual(image);
+    expect(byName.get("empty.txt")?.content.length).toBe(0);
+    await expect(fs.stat(`${zipPath}.tmp`)).rejects.toThrow();
+  });
+
+  it("rewrites links for a base path", async () => {
+    const zipPath = path.join(tempDir, "site.zip");
+    await exportSite(siteDir, { format: "zip", path: zipPath, basePath: "/garden/" });
+
+    const index = readZip(await fs.readFile(zipPath)).find((entry) => entry.name === "index.html");
+    expect(index?.content.toString("utf8")).toContain('href="/garden/notes/a/"');
+  });
+
+  it("refuses a location inside the built site", async () => {
+    await expect(exportSite(siteDir, { format: "zip", path: path.join(siteDir, "site.zip") })).rejects.toThrow(
+      "The export location can't be inside the built site"
+    );
+  });
+});
+
+describe("rewriteBasePath", () => {
+  it("prefixes root-relative links only", () => {
+    const html = '<a href="/a/">A</a><img src="//cdn.example.com/x.png"><a href="https://example.com/">E</a>';
+    expect(rewriteBasePath(html, "/docs", ".html")).toBe(
+      '<a href="/docs/a/">A</a><img src="//cdn.example.com/x.png"><a href="https://example.com/">E</a>'
+    );
+  });
+
+  it("leaves links that already have the base path", () => {
+    expect(rewriteBasePath('<a href="/docs/a/">A</a>', "/docs", ".html")).toBe('<a href="/docs/a/">A</a>');
+  });
+
+  it("rewrites CSS urls", () => {
+    expect(rewriteBasePath("body { background: url('/img/bg.png'); }", "/docs", ".css")).toBe(
+      "body { background: url('/docs/img/bg.png'); }"
+    );
+  });
+});
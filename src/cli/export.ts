@@ -0,0 +1,350 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import * as zlib from "zlib";
+import { LocalExportSettings } from "./types";
+
+// Left in an exported folder with the list of files the export wrote, so
+// the next export removes exactly those and nothing else
+const EXPORT_MARKER = ".leafpress-export";
+
+interface ExportManifest {
+  exportedAt: string;
+  files: string[];
+}
+
+// Content types for the files a built site holds, for uploads; anything else
+// is sent as binary
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".htm": "text/html; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".mjs": "text/javascript; charset=utf-8",
+  ".json": "application/json",
+  ".map": "application/json",
+  ".xml": "application/xml",
+  ".txt": "text/plain; charset=utf-8",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".avif": "image/avif",
+  ".ico": "image/x-icon",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+  ".ttf": "font/ttf",
+  ".pdf": "application/pdf",
+  ".mp3": "audio/mpeg",
+  ".mp4": "video/mp4",
+  ".webm": "video/webm",
+  ".wasm": "application/wasm",
+};
+
+// Files whose root-relative links are rewritten for a base path
+const REWRITTEN_EXTENSIONS = new Set([".html", ".htm", ".css"]);
+
+// Extensions that are already compressed, so they're stored in a zip as is
+const STORED_EXTENSIONS = new Set([".png", ".jpg", ".jpeg", ".gif", ".webp", ".avif", ".woff", ".woff2", ".zip", ".mp4", ".mp3"]);
+
+/**
+ * Content type a file of the built site is served with
+ */
+export function getContentType(file: string): string {
+  return CONTENT_TYPES[path.extname(file).toLowerCase()] ?? "application/octet-stream";
+}
+
+/**
+ * Every file below a folder, as paths relative to it with forward slashes
+ */
+export async function listSiteFiles(dir: string, relativeDir: string = ""): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(path.join(dir, relativeDir), { withFileTypes: true });
+  for (const entry of entries) {
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...(await listSiteFiles(dir, relativePath)));
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Prefix root-relative links (`/notes/foo/`, not `//cdn.example.com`) with
+ * basePath. Links that already start with it are left alone.
+ */
+export function rewriteBasePath(content: string, basePath: string, extension: string): string {
+  const base = basePath.replace(/\/+$/, "");
+  if (!base) return content;
+
+  const prefix = (link: string) =>
+    link.startsWith("/") && !link.startsWith("//") && link !== base && !link.startsWith(`${base}/`)
+      ? `${base}${link}`
+      : link;
+
+  if (extension === ".css") {
+    return content.replace(/url\(\s*(["']?)([^"')]*)/gi, (_, quote: string, link: string) => `url(${quote}${prefix(link)}`);
+  }
+
+  return content
+    .replace(
+      /(\s(?:href|src|action|poster|data-src)\s*=\s*)(["'])([^"']*)\2/gi,
+      (_, attr: string, quote: string, link: string) => `${attr}${quote}${prefix(link)}${quote}`
+    )
+    .replace(
+      /(\ssrcset\s*=\s*)(["'])([^"']*)\2/gi,
+      (_, attr: string, quote: string, list: string) =>
+        `${attr}${quote}${list.replace(/(^|,\s*)(\S+)/g, (__, sep: string, link: string) => `${sep}${prefix(link)}`)}${quote}`
+    )
+    .replace(/url\(\s*(["']?)([^"')]*)/gi, (_, quote: string, link: string) => `url(${quote}${prefix(link)}`);
+}
+
+/**
+ * A file's content as it goes into the export
+ */
+async function readExportedFile(siteDir: string, file: string, basePath: string | undefined): Promise<Buffer> {
+  const content = await fs.readFile(path.join(siteDir, file));
+  const extension = path.extname(file).toLowerCase();
+  if (!basePath || !REWRITTEN_EXTENSIONS.has(extension)) return content;
+  return Buffer.from(rewriteBasePath(content.toString("utf8"), basePath, extension), "utf8");
+}
+
+/**
+ * Stop exports that would overwrite the built site or write into it
+ */
+function checkLocation(siteDir: string, location: string): void {
+  const relative = path.relative(path.resolve(location), path.resolve(siteDir));
+  if (relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative))) {
+    throw new Error("The export location can't contain the built site");
+  }
+  const inside = path.relative(path.resolve(siteDir), path.resolve(location));
+  if (!inside.startsWith("..") && !path.isAbsolute(inside)) {
+    throw new Error("The export location can't be inside the built site");
+  }
+}
+
+/**
+ * Files a previous export wrote to a folder, from its marker. Null if the
+ * folder has no readable marker.
+ */
+async function readExportManifest(folder: string): Promise<string[] | null> {
+  try {
+    const manifest = JSON.parse(await fs.readFile(path.join(folder, EXPORT_MARKER), "utf8")) as ExportManifest;
+    if (!Array.isArray(manifest.files)) return null;
+    // Only paths inside the folder, whatever the marker says
+    return manifest.files.filter(
+      (file) => typeof file === "string" && !path.isAbsolute(file) && !file.split("/").includes("..")
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove the files a previous export wrote, and the folders that leaves
+ * empty. Anything else in the folder is kept.
+ */
+async function removePreviousExport(folder: string, files: string[]): Promise<void> {
+  const dirs = new Set<string>();
+  for (const file of files) {
+    await fs.rm(path.join(folder, ...file.split("/")), { force: true });
+    for (let dir = path.posix.dirname(file); dir !== "."; dir = path.posix.dirname(dir)) {
+      dirs.add(dir);
+    }
+  }
+  // Deepest first, so parents are empty by the time they're reached
+  const sorted = [...dirs].sort((a, b) => b.split("/").length - a.split("/").length);
+  for (const dir of sorted) {
+    try {
+      await fs.rmdir(path.join(folder, ...dir.split("/")));
+    } catch {
+      // Not empty: it holds files the export didn't write
+    }
+  }
+}
+
+/**
+ * Export the site to a folder, replacing what the previous export wrote
+ * there. The folder must be new, empty or a previous export, and files the
+ * export didn't write are never removed or overwritten.
+ */
+async function exportToFolder(siteDir: string, files: string[], settings: Partial<LocalExportSettings>, folder: string): Promise<void> {
+  let existing: string[] = [];
+  try {
+    existing = await fs.readdir(folder);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw new Error(`Can't export to ${folder}: ${String(err)}`);
+    }
+  }
+
+  let previous: string[] = [];
+  if (existing.length > 0) {
+    const manifest = await readExportManifest(folder);
+    if (manifest === null) {
+      throw new Error(`${folder} isn't empty and wasn't created by an export. Choose an empty or new folder.`);
+    }
+    previous = manifest;
+  }
+
+  const previousFiles = new Set(previous);
+  for (const file of files) {
+    if (previousFiles.has(file)) continue;
+    try {
+      await fs.stat(path.join(folder, ...file.split("/")));
+    } catch {
+      continue;
+    }
+    throw new Error(`${path.join(folder, file)} wasn't written by an export and would be overwritten. Choose an empty or new folder.`);
+  }
+
+  await removePreviousExport(folder, previous);
+  await fs.mkdir(folder, { recursive: true });
+  for (const file of files) {
+    const target = path.join(folder, ...file.split("/"));
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, await readExportedFile(siteDir, file, settings.basePath));
+  }
+  const manifest: ExportManifest = { exportedAt: new Date().toISOString(), files };
+  await fs.writeFile(path.join(folder, EXPORT_MARKER), JSON.stringify(manifest, null, 2));
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Date and time in the MS-DOS format zip headers use
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Write the site to a zip file, through a temporary file so a failed export
+ * leaves an earlier zip in place
+ */
+async function exportToZip(siteDir: string, files: string[], settings: Partial<LocalExportSettings>, zipPath: string): Promise<void> {
+  await fs.mkdir(path.dirname(zipPath), { recursive: true });
+  const tempPath = `${zipPath}.tmp`;
+  const handle = await fs.open(tempPath, "w");
+  const centralDirectory: Buffer[] = [];
+  const { time, date } = toDosDateTime(new Date());
+  let offset = 0;
+
+  try {
+    for (const file of files) {
+      const data = await readExportedFile(siteDir, file, settings.basePath);
+      const name = Buffer.from(file, "utf8");
+      const deflated = STORED_EXTENSIONS.has(path.extname(file).toLowerCase()) ? null : zlib.deflateRawSync(data);
+      const compressed = deflated && deflated.length < data.length ? deflated : data;
+      const method = compressed === data ? 0 : 8;
+      const crc = crc32(data);
+
+      // Zip offsets are 32-bit; check before the temp file grows any further
+      if (offset + 30 + name.length + compressed.length > 0xffffffff) {
+        throw new Error("The site is too large for a zip file. Export it to a folder instead.");
+      }
+
+      // Local file header; bit 11 marks UTF-8 names
+      const header = Buffer.alloc(30);
+      header.writeUInt32LE(0x04034b50, 0);
+      header.writeUInt16LE(20, 4);
+      header.writeUInt16LE(0x0800, 6);
+      header.writeUInt16LE(method, 8);
+      header.writeUInt16LE(time, 10);
+      header.writeUInt16LE(date, 12);
+      header.writeUInt32LE(crc, 14);
+      header.writeUInt32LE(compressed.length, 18);
+      header.writeUInt32LE(data.length, 22);
+      header.writeUInt16LE(name.length, 26);
+      await handle.write(Buffer.concat([header, name]));
+      await handle.write(compressed);
+
+      const entry = Buffer.alloc(46);
+      entry.writeUInt32LE(0x02014b50, 0);
+      entry.writeUInt16LE(20, 4);
+      entry.writeUInt16LE(20, 6);
+      entry.writeUInt16LE(0x0800, 8);
+      entry.writeUInt16LE(method, 10);
+      entry.writeUInt16LE(time, 12);
+      entry.writeUInt16LE(date, 14);
+      entry.writeUInt32LE(crc, 16);
+      entry.writeUInt32LE(compressed.length, 20);
+      entry.writeUInt32LE(data.length, 24);
+      entry.writeUInt16LE(name.length, 28);
+      entry.writeUInt32LE(offset, 42);
+      centralDirectory.push(entry, name);
+
+      offset += header.length + name.length + compressed.length;
+    }
+
+    const directory = Buffer.concat(centralDirectory);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(files.length, 8);
+    end.writeUInt16LE(files.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+    await handle.write(Buffer.concat([directory, end]));
+  } catch (err) {
+    await handle.close();
+    await fs.rm(tempPath, { force: true });
+    throw err;
+  }
+
+  await handle.close();
+  await fs.rename(tempPath, zipPath);
+}
+
+/**
+ * Copy a built site (absolute siteDir) to a folder or zip file, rewriting
+ * links for a base path if one is set. Resolves with the number of files
+ * exported.
+ */
+export async function exportSite(siteDir: string, settings: Partial<LocalExportSettings>): Promise<number> {
+  const location = (settings.path ?? "").trim();
+  if (!location || !path.isAbsolute(location)) {
+    throw new Error("Set an absolute export location first");
+  }
+  checkLocation(siteDir, location);
+
+  let files: string[];
+  try {
+    files = await listSiteFiles(siteDir);
+  } catch {
+    throw new Error("The site hasn't been built yet");
+  }
+  if (files.length > 0xffff && settings.format === "zip") {
+    throw new Error("The site has too many files for a zip file. Export it to a folder instead.");
+  }
+
+  if (settings.format === "zip") {
+    await exportToZip(siteDir, files, settings, location);
+  } else {
+    await exportToFolder(siteDir, files, settings, location);
+  }
+  return files.length;
+}
@@ -1,6 +1,85 @@
-import { App, Notice, Modal } from "obsidian";
+import { App, Notice, Modal, TFile } from "obsidian";
+import { promises as fs } from "fs";
+import * as path from "path";
 import { BinaryManager } from "./manager";
-import { openInBrowser, isPortInUse } from "../utils/platform";
+import { RunLog } from "./run-log";
+import { PreviewServer } from "./preview-server";
+import {
+  CLIResult,
+  CommandRun,
+  DeployTarget,
+  ExecOptions,
+  LeafpressConfig,
+  CloudflarePagesSettings,
+  LocalExportSettings,
+  S3Settings,
+  SftpSettings,
+} from "./types";
+import { deployToCloudflare } from "./cloudflare";
+import { exportSite } from "./export";
+import { syncToS3 } from "./s3";
+import { syncOverSsh } from "./sftp";
+import { parseDiagnostics } from "./diagnostics";
+import { VIEW_TYPE_BUILD_LOG } from "../build-log";
+import { VIEW_TYPE_PROBLEMS } from "../problems";
+import { VIEW_TYPE_PREVIEW } from "../preview-view";
+import { LinkReportView, VIEW_TYPE_LINK_REPORT } from "../link-report";
+import { DeployConfirmModal } from "../deploy-confirm";
+import { DeploySetupModal } from "../deploy-setup";
+import { ExportSiteModal } from "../export-site";
+import { checkLinks } from "../utils/link-check";
+import { loadPublishRules, getNoteSkipReason } from "../utils/publish";
+import {
+  getNotePagePath,
+  getLiveSiteUrl,
+  formatLink,
+  LinkFormat,
+  PageAnchor,
+} from "../utils/urls";
+import { saveDeploySnapshots, pruneSnapshots } from "../utils/snapshots";
+import {
+  DEPLOY_STATE_FILE,
+  DeployState,
+  readDeployState,
+  getPendingFiles,
+  getSourceFilesWithHashes,
+  sha1Hash,
+  diffSourceFiles,
+  PendingFile,
+} from "../utils/deploy-state";
+import { checkBuildFreshness, isBuildStale, recordSuccessfulBuild } from "../utils/build-state";
+import {
+  readDeployHistory,
+  addDeployHistoryEntry,
+  getSiteSnapshotPath,
+} from "../utils/deploy-history";
+import {
+  createDeployStage,
+  createRedeployStage,
+  adoptStagedDeployState,
+  removeDeployStage,
+  copyDirectory,
+  applyDeployTarget,
+  getStagedSourceFiles,
+} from "./staging";
+import {
+  getDeployTarget,
+  getTargetKey,
+  getTargetStatePath,
+  getTargetSourceHashes,
+  PRODUCTION_LABEL,
+} from "../utils/deploy-targets";
+import {
+  validateDeploySettings,
+  getDeploySettingValues,
+  getDeployUrl,
+  PLUGIN_DEPLOYED_PROVIDERS,
+} from "../utils/deploy-settings";
+import { openInBrowser } from "../utils/platform";
+import { readLeafpressConfig, getPreviewPort, getProviderLabel } from "../utils/config";
+import { SiteProfiles, getStashedSourceHashes } from "../site-profiles";
+import { Credentials } from "../credentials";
+import { LeafpressPluginSettings } from "../settings";
 
 interface DeploymentSuccess {
   success: true;
@@ -18,19 +97,658 @@ interface DeploymentError {
 
 type DeploymentResult = DeploymentSuccess | DeploymentError;
 
+interface RunOptions {
+  // Working directory for the CLI (defaults to the vault root)
+  cwd?: string;
+  // Runs after the command exits but before the run is marked finished
+  beforeFinish?: (result: CLIResult) => Promise<void>;
+  // Don't open the build log, even if it's set to open on every run
+  background?: boolean;
+  // Also receives each line of output, besides the build log
+  onOutput?: ExecOptions["onOutput"];
+  // Answers questions the CLI asks; without it, a question waits until timeout
+  onPrompt?: ExecOptions["onPrompt"];
+  // Extra environment for the CLI, such as the deploy provider's token
+  env?: Record<string, string>;
+  // Done by the plugin in place of the CLI, reporting through onOutput and
+  // stopping early once signal.cancelled is set
+  exec?: (
+    onOutput: NonNullable<ExecOptions["onOutput"]>,
+    signal: { cancelled: boolean }
+  ) => Promise<CLIResult>;
+}
+
+// What a deploy history entry is built from
+interface DeployRecord {
+  previousSourceFiles: Record<string, string>;
+  // Absolute path of the built site that was deployed
+  siteDir: string;
+  redeployOf?: string;
+  // Named deploy target, if not production
+  target?: string;
+}
+
 interface FileSystemAdapter {
   basePath?: string;
   path?: string;
   mkdir(path: string): Promise<void>;
 }
 
+/**
+ * Result of a plugin-side run that failed, with the reason in the build log
+ */
+function failedRun(message: string, onOutput: NonNullable<ExecOptions["onOutput"]>): CLIResult {
+  onOutput(message, "stderr");
+  return { success: false, stdout: "", stderr: message, code: 1 };
+}
+
 export class CommandHandlers {
   private app: App;
   private binaryManager: BinaryManager;
-
-  constructor(app: App, binaryManager: BinaryManager, _plugin: unknown) {
+  private settings: LeafpressPluginSettings;
+  private runLog: RunLog;
+  private previewServer: PreviewServer;
+  private siteProfiles: SiteProfiles;
+  private credentials: Credentials;
+  private busy = false;
+  // Stops a deploy the plugin runs itself, while one is running
+  private cancelPluginRun: (() => void) | null = null;
+
+  constructor(
+    app: App,
+    binaryManager: BinaryManager,
+    settings: LeafpressPluginSettings,
+    runLog: RunLog,
+    previewServer: PreviewServer,
+    siteProfiles: SiteProfiles,
+    credentials: Credentials
+  ) {
     this.app = app;
     this.binaryManager = binaryManager;
+    this.settings = settings;
+    this.runLog = runLog;
+    this.previewServer = previewServer;
+    this.siteProfiles = siteProfiles;
+    this.credentials = credentials;
+  }
+
+  /**
+   * Open the build log view, reusing an existing one if present
+   */
+  async showBuildLog(): Promise<void> {
+    const { workspace } = this.app;
+    let leaf = workspace.getLeavesOfType(VIEW_TYPE_BUILD_LOG)[0];
+
+    if (!leaf) {
+      leaf = workspace.getLeaf("tab");
+      await leaf.setViewState({ type: VIEW_TYPE_BUILD_LOG, active: true });
+    }
+
+    void workspace.revealLeaf(leaf);
+  }
+
+  isBusy(): boolean {
+    return this.busy;
+  }
+
+  /**
+   * Subscribe to runs starting and finishing (output lines are ignored).
+   * Returns a function that unsubscribes.
+   */
+  onBusyChange(listener: (busy: boolean) => void): () => void {
+    let busy = this.isBusy();
+    return this.runLog.onChange(() => {
+      const nowBusy = this.isBusy();
+      if (nowBusy !== busy) {
+        busy = nowBusy;
+        listener(busy);
+      }
+    });
+  }
+
+  /**
+   * Cancel the running build or deploy, if any
+   */
+  cancel(): void {
+    if (!this.stopRuns()) {
+      new Notice("No operation in progress");
+      return;
+    }
+    new Notice("Cancelling...");
+  }
+
+  /**
+   * Stop the running build or deploy without notices, whether the CLI or
+   * the plugin itself runs it. Returns false when nothing was running.
+   */
+  stopRuns(): boolean {
+    if (this.cancelPluginRun) {
+      this.cancelPluginRun();
+      return true;
+    }
+    return this.binaryManager.cancelActiveCommand();
+  }
+
+  /**
+   * Open the build problems view, reusing an existing one if present
+   */
+  async showProblems(): Promise<void> {
+    const { workspace } = this.app;
+    let leaf = workspace.getLeavesOfType(VIEW_TYPE_PROBLEMS)[0];
+
+    if (!leaf) {
+      leaf = workspace.getRightLeaf(false);
+      if (!leaf) return;
+      await leaf.setViewState({ type: VIEW_TYPE_PROBLEMS, active: true });
+    }
+
+    void workspace.revealLeaf(leaf);
+  }
+
+  /**
+   * Open the link check report, reusing an existing one if present.
+   * The report runs a fresh check every time it's shown.
+   */
+  async showLinkReport(): Promise<void> {
+    const { workspace } = this.app;
+    const existing = workspace.getLeavesOfType(VIEW_TYPE_LINK_REPORT)[0];
+
+    if (existing) {
+      void workspace.revealLeaf(existing);
+      if (existing.view instanceof LinkReportView) {
+        await existing.view.refresh();
+      }
+      return;
+    }
+
+    const leaf = workspace.getRightLeaf(false);
+    if (!leaf) return;
+    await leaf.setViewState({ type: VIEW_TYPE_LINK_REPORT, active: true });
+    void workspace.revealLeaf(leaf);
+  }
+
+  /**
+   * Check links before deploying. Returns false if the deploy should stop.
+   */
+  private async checkLinksBeforeDeploy(): Promise<boolean> {
+    if (this.settings.linkCheckOnDeploy === "off") return true;
+
+    const issues = await checkLinks(this.app);
+    if (issues.length === 0) return true;
+
+    await this.showLinkReport();
+    if (this.settings.linkCheckOnDeploy === "block") {
+      new Notice(`Deploy blocked: ${issues.length} link(s) point to unpublished notes`);
+      return false;
+    }
+
+    new Notice(`Warning: ${issues.length} link(s) point to unpublished notes`);
+    return true;
+  }
+
+  /**
+   * Make sure the build isn't older than its sources before deploying it.
+   * Returns false if the deploy should stop.
+   */
+  private async checkBuildBeforeDeploy(): Promise<boolean> {
+    const freshness = await checkBuildFreshness(this.app);
+    if (!isBuildStale(freshness)) return true;
+
+    switch (this.settings.staleBuildOnDeploy) {
+      case "build": {
+        new Notice("Build is out of date, building first...");
+        await this.binaryManager.ensureBinary();
+        const { result, run } = await this.runBuild();
+        if (result.success) return true;
+        if (!result.cancelled) {
+          new Notice("Deploy stopped: the build failed");
+          if (run.diagnostics && run.diagnostics.length > 0) {
+            await this.showProblems();
+          } else {
+            await this.showBuildLog();
+          }
+        }
+        return false;
+      }
+
+      case "block":
+        new Notice(
+          freshness.builtAt === null
+            ? "Deploy blocked: build the site first"
+            : "Deploy blocked: the build is out of date. Build the site first."
+        );
+        return false;
+
+      default:
+        // The confirmation dialog shows its own warning
+        if (!this.settings.confirmBeforeDeploy) {
+          new Notice("Warning: the build is out of date, so recent changes won't be deployed");
+        }
+        return true;
+    }
+  }
+
+  /**
+   * Build the vault, remembering the sources on success so stale builds
+   * can be detected
+   */
+  private async runBuild(background: boolean = false): Promise<{ result: CLIResult; run: CommandRun }> {
+    return this.runLogged("build", ["build"], this.settings.buildTimeoutMinutes, {
+      background,
+      beforeFinish: async (result) => {
+        if (!result.success) return;
+        try {
+          await recordSuccessfulBuild(this.app);
+        } catch (err) {
+          console.error("[leafpress] Error recording build:", err);
+        }
+      },
+    });
+  }
+
+  /**
+   * Stop a deploy whose provider settings don't validate, saying what to fix.
+   * Checks production unless a target is given.
+   */
+  private async checkDeploySettings(target?: DeployTarget, unattended: boolean = false): Promise<boolean> {
+    const deploy = target ?? (await readLeafpressConfig(this.app))?.deploy;
+    if (!deploy) return true;
+
+    const errors = validateDeploySettings(deploy);
+    if (errors.length === 0) return true;
+
+    const where = target ? ` for ${target.name}` : "";
+    new Notice(
+      `${unattended ? "Automatic deploy skipped" : "Deploy stopped"}: fix the deploy settings${where} first. ${errors.join(". ")}`,
+      10000
+    );
+    return false;
+  }
+
+  /**
+   * Ask for approval of a deploy, unless the dialog is turned off in settings.
+   * Returns false if the deploy should stop.
+   */
+  private async confirmDeploy(
+    changes: PendingFile[],
+    checkBuild: boolean,
+    target?: DeployTarget
+  ): Promise<boolean> {
+    if (!this.settings.confirmBeforeDeploy) return true;
+
+    const config = await readLeafpressConfig(this.app);
+    const deployState = await readDeployState(this.app, getTargetStatePath(this.app, target?.name));
+    const warnings: string[] = [];
+
+    if (changes.some((change) => change.file === "leafpress.json")) {
+      warnings.push("The site configuration (leafpress.json) changed");
+    }
+
+    const deletions = changes.filter((change) => change.status === "deleted").length;
+    if (deletions > this.settings.deletionWarningThreshold) {
+      warnings.push(`${deletions} pages will be removed from the site`);
+    }
+
+    if (checkBuild) {
+      const freshness = await checkBuildFreshness(this.app);
+      if (freshness.builtAt === null) {
+        warnings.push("The site hasn't been built yet");
+      } else if (freshness.changedSince.length > 0) {
+        warnings.push(
+          `The build is older than ${freshness.changedSince.length} source file(s), so their changes won't go out`
+        );
+      }
+    }
+
+    const deploy = target ?? config?.deploy;
+    const provider = deploy?.provider;
+    // Exports go to a path rather than a site address
+    const exportPath = provider === "local" ? getDeploySettingValues(deploy).path : undefined;
+    return new DeployConfirmModal(this.app, {
+      target: target?.name,
+      provider: provider ? getProviderLabel(provider) : "Not configured",
+      url: exportPath || deployState?.lastDeploy?.url || target?.baseURL || config?.baseURL || null,
+      changes,
+      warnings,
+    }).prompt();
+  }
+
+  /**
+   * Keep copies of the deployed sources so pending changes can be diffed
+   * and earlier deploys rebuilt
+   */
+  private async snapshotDeployedFiles(target?: string): Promise<void> {
+    try {
+      await saveDeploySnapshots(this.app, getTargetStatePath(this.app, target));
+      // Keep what production and every target last deployed, and the history
+      const referenced = new Set(Object.values(await this.getDeployedSourceFiles()));
+      (await getTargetSourceHashes(this.app)).forEach((hash) => referenced.add(hash));
+      for (const entry of await readDeployHistory(this.app)) {
+        Object.values(entry.sourceFiles).forEach((hash) => referenced.add(hash));
+      }
+      // Other site profiles may share snapshots of the same content
+      (await getStashedSourceHashes(this.app)).forEach((hash) => referenced.add(hash));
+      await pruneSnapshots(this.app, referenced);
+    } catch (err) {
+      console.error("[leafpress] Error saving deploy snapshots:", err);
+    }
+  }
+
+  /**
+   * Run a CLI command, streaming its output into the build log
+   */
+  private async runLogged(
+    command: string,
+    args: string[],
+    timeoutMinutes: number,
+    options: RunOptions = {}
+  ): Promise<{ result: CLIResult; run: CommandRun }> {
+    if (this.busy) {
+      throw new Error("Another operation is already in progress");
+    }
+
+    if (this.settings.showBuildLogOnRun && !options.background) {
+      await this.showBuildLog();
+    }
+
+    this.busy = true;
+    const run = this.runLog.startRun(command, args);
+    let result: CLIResult;
+    try {
+      const onOutput: NonNullable<ExecOptions["onOutput"]> = (line, stream) => {
+        this.runLog.appendLine(run, line, stream);
+        options.onOutput?.(line, stream);
+      };
+      if (options.exec) {
+        const signal = { cancelled: false };
+        this.cancelPluginRun = () => {
+          signal.cancelled = true;
+        };
+        try {
+          result = await options.exec(onOutput, signal);
+        } finally {
+          this.cancelPluginRun = null;
+        }
+      } else {
+        result = await this.binaryManager.execCommand(args, {
+          onOutput,
+          onPrompt: options.onPrompt,
+          env: options.env,
+          timeoutMs: timeoutMinutes * 60 * 1000,
+          cwd: options.cwd,
+          cancellable: true,
+        });
+      }
+      await options.beforeFinish?.(result);
+    } catch (err) {
+      this.busy = false;
+      this.runLog.appendLine(run, String(err), "stderr");
+      this.runLog.finishRun(run, 1);
+      throw err;
+    }
+    this.busy = false;
+    const adapter = this.app.vault.adapter as FileSystemAdapter;
+    run.diagnostics = parseDiagnostics(
+      run.lines,
+      options.cwd ?? adapter.basePath ?? adapter.path ?? "",
+      (path) => this.app.vault.getAbstractFileByPath(path) !== null
+    );
+    this.runLog.finishRun(run, result.code, result.cancelled);
+    return { result, run };
+  }
+
+  /**
+   * Deploy the built site in the vault, or in a stage (options.cwd). The CLI
+   * deploys to most hosting providers. S3 uploads and exports to a folder or
+   * zip are done here, writing the deploy state the CLI would so pending
+   * changes are tracked.
+   */
+  private async runDeploy(
+    args: string[],
+    options: RunOptions = {}
+  ): Promise<{ result: CLIResult; run: CommandRun }> {
+    const cwd = options.cwd ?? this.binaryManager.getVaultPath();
+    let config: LeafpressConfig | null = null;
+    try {
+      config = JSON.parse(await fs.readFile(path.join(cwd, "leafpress.json"), "utf8")) as LeafpressConfig;
+    } catch {
+      // Not initialized; the CLI reports it
+    }
+    const deploy = config?.deploy;
+
+    if (!deploy || !PLUGIN_DEPLOYED_PROVIDERS.has(deploy.provider)) {
+      // Only the token of the provider deployed to reaches the CLI
+      const env = deploy ? await this.credentials.getDeployEnv(deploy.provider) : undefined;
+      return this.runLogged("deploy", args, this.settings.deployTimeoutMinutes, { ...options, env });
+    }
+
+    const siteDir = path.join(cwd, config?.outputDir || "_site");
+    return this.runLogged("deploy", [deploy.provider], this.settings.deployTimeoutMinutes, {
+      ...options,
+      exec: async (onOutput, signal) => {
+        const sourceFiles = options.cwd
+          ? await getStagedSourceFiles(cwd, await loadPublishRules(this.app))
+          : await getSourceFilesWithHashes(this.app);
+        const settings = deploy.settings ?? {};
+        let result: CLIResult;
+        switch (deploy.provider) {
+          case "cloudflare-pages":
+            result = await this.uploadToCloudflare(siteDir, settings as Partial<CloudflarePagesSettings>, onOutput, signal);
+            break;
+          case "s3":
+            result = await this.uploadToS3(siteDir, settings as Partial<S3Settings>, onOutput, signal);
+            break;
+          case "sftp":
+            result = await this.uploadOverSsh(siteDir, settings as Partial<SftpSettings>, onOutput, signal);
+            break;
+          default:
+            result = await this.exportBuiltSite(siteDir, settings as Partial<LocalExportSettings>, onOutput);
+        }
+        if (result.success) {
+          const state: DeployState = {
+            lastDeploy: {
+              timestamp: new Date().toISOString(),
+              url: getDeployUrl(deploy) ?? "",
+              sourceFiles,
+            },
+          };
+          await fs.writeFile(path.join(cwd, DEPLOY_STATE_FILE), JSON.stringify(state, null, 2));
+        }
+        return result;
+      },
+    });
+  }
+
+  /**
+   * Publish the built site as a Cloudflare Pages deployment, reported like a
+   * CLI run
+   */
+  private async uploadToCloudflare(
+    siteDir: string,
+    settings: Partial<CloudflarePagesSettings>,
+    onOutput: NonNullable<ExecOptions["onOutput"]>,
+    signal: { cancelled: boolean }
+  ): Promise<CLIResult> {
+    const token = await this.credentials.getToken("cloudflare-pages");
+    if (!token) {
+      return failedRun("No Cloudflare API token: add one under Deployment in settings", onOutput);
+    }
+
+    try {
+      const deployed = await deployToCloudflare(
+        siteDir,
+        settings,
+        token,
+        (line) => onOutput(line, "stdout"),
+        () => signal.cancelled
+      );
+      if (deployed.cancelled) {
+        return { success: false, stdout: "", stderr: "", code: 1, cancelled: true };
+      }
+      // The project (or branch) address first, as that's where the site stays
+      const url = getDeployUrl({ provider: "cloudflare-pages", settings }) ?? deployed.url;
+      const message =
+        `Uploaded ${deployed.uploaded} file(s), ${deployed.unchanged} unchanged` +
+        (url ? `. Deployed to ${url}` : "") +
+        (deployed.url && deployed.url !== url ? ` (this deployment: ${deployed.url})` : "");
+      onOutput(message, "stdout");
+      return { success: true, stdout: message, stderr: "", code: 0 };
+    } catch (err) {
+      return failedRun(err instanceof Error ? err.message : String(err), onOutput);
+    }
+  }
+
+  /**
+   * Copy the built site to the server with rsync or SFTP, reported like a
+   * CLI run
+   */
+  private async uploadOverSsh(
+    siteDir: string,
+    settings: Partial<SftpSettings>,
+    onOutput: NonNullable<ExecOptions["onOutput"]>,
+    signal: { cancelled: boolean }
+  ): Promise<CLIResult> {
+    try {
+      const synced = await syncOverSsh(siteDir, settings, onOutput, () => signal.cancelled);
+      if (synced.cancelled) {
+        return { success: false, stdout: "", stderr: "", code: 1, cancelled: true };
+      }
+      const url = getDeployUrl({ provider: "sftp", settings });
+      const message = `Uploaded ${synced.uploaded} file(s), removed ${synced.removed}` + (url ? `. Deployed to ${url}` : "");
+      onOutput(message, "stdout");
+      return { success: true, stdout: message, stderr: "", code: 0 };
+    } catch (err) {
+      return failedRun(err instanceof Error ? err.message : String(err), onOutput);
+    }
+  }
+
+  /**
+   * Make a bucket match the built site, reported like a CLI run. Signs with
+   * the access key ID from the settings and the stored secret access key.
+   */
+  private async uploadToS3(
+    siteDir: string,
+    settings: Partial<S3Settings>,
+    onOutput: NonNullable<ExecOptions["onOutput"]>,
+    signal: { cancelled: boolean }
+  ): Promise<CLIResult> {
+    const accessKeyId = (settings.accessKeyId ?? "").trim();
+    const secretAccessKey = await this.credentials.getToken("s3");
+    if (!accessKeyId || !secretAccessKey) {
+      return failedRun(
+        "No S3 access key: set the access key ID in the provider settings and the secret access key under Deployment in settings",
+        onOutput
+      );
+    }
+
+    try {
+      const synced = await syncToS3(
+        siteDir,
+        settings,
+        { accessKeyId, secretAccessKey },
+        (line) => onOutput(line, "stdout"),
+        () => signal.cancelled
+      );
+      if (synced.cancelled) {
+        return { success: false, stdout: "", stderr: "", code: 1, cancelled: true };
+      }
+      const url = getDeployUrl({ provider: "s3", settings });
+      const message =
+        `Uploaded ${synced.uploaded} file(s), removed ${synced.removed}, ${synced.unchanged} unchanged` +
+        (url ? `. Deployed to ${url}` : "");
+      onOutput(message, "stdout");
+      return { success: true, stdout: message, stderr: "", code: 0 };
+    } catch (err) {
+      return failedRun(err instanceof Error ? err.message : String(err), onOutput);
+    }
+  }
+
+  /**
+   * Copy a built site to a folder or zip file, reported like a CLI run
+   */
+  private async exportBuiltSite(
+    siteDir: string,
+    settings: Partial<LocalExportSettings>,
+    onOutput: NonNullable<ExecOptions["onOutput"]>
+  ): Promise<CLIResult> {
+    const location = (settings.path ?? "").trim();
+    onOutput(`Exporting ${siteDir} to ${location}${settings.basePath ? ` under ${settings.basePath}` : ""}`, "stdout");
+    try {
+      const count = await exportSite(siteDir, settings);
+      const message = `Exported ${count} file(s) to ${location}`;
+      onOutput(message, "stdout");
+      return { success: true, stdout: message, stderr: "", code: 0 };
+    } catch (err) {
+      return failedRun(err instanceof Error ? err.message : String(err), onOutput);
+    }
+  }
+
+  /**
+   * Build and copy the site to a folder or zip file, without touching the
+   * deploy state. Asks where to, starting from the export deploy settings
+   * if there are any.
+   */
+  async exportSite(): Promise<void> {
+    const deploy = (await readLeafpressConfig(this.app))?.deploy;
+    const values = deploy?.provider === "local" ? getDeploySettingValues(deploy) : {};
+    new ExportSiteModal(this.app, values, (settings) => {
+      void this.exportTo(settings);
+    }).open();
+  }
+
+  private async exportTo(settings: Partial<LocalExportSettings>): Promise<void> {
+    try {
+      if (this.busy) {
+        new Notice("Another operation is already in progress");
+        return;
+      }
+
+      new Notice("Preparing...");
+      await this.binaryManager.ensureBinary();
+      new Notice("Building your site...");
+
+      const build = await this.runBuild();
+      if (build.result.cancelled) {
+        new Notice("Export cancelled");
+        return;
+      }
+      if (!build.result.success) {
+        new Notice("Build failed. See the build log for details.");
+        await this.showBuildLog();
+        return;
+      }
+
+      const siteDir = path.join(this.binaryManager.getVaultPath(), await this.getOutputDir());
+      const { result } = await this.runLogged("export", ["export"], this.settings.deployTimeoutMinutes, {
+        exec: (onOutput) => this.exportBuiltSite(siteDir, settings, onOutput),
+      });
+      new Notice(result.success ? result.stdout : `Export failed: ${result.stderr}`, result.success ? 5000 : 10000);
+    } catch (err) {
+      new Notice(`Error: ${String(err)}`);
+      console.error(err);
+    }
+  }
+
+  /**
+   * Make another site profile the one every command acts on
+   */
+  async switchProfile(id: string): Promise<void> {
+    if (id === this.siteProfiles.getActive().id) return;
+    if (this.busy) {
+      new Notice("Another operation is already in progress");
+      return;
+    }
+
+    try {
+      // Our server is serving the previous site; another process on the
+      // port isn't ours to stop
+      await this.previewServer.stopOwnServer();
+      await this.siteProfiles.switchTo(id);
+      new Notice(`Switched to site: ${this.siteProfiles.getActive().name}`);
+    } catch (err) {
+      new Notice(`Failed to switch site: ${String(err)}`);
+      console.error("[leafpress] Error switching site profile:", err);
+    }
   }
 
   async initialize(): Promise<void> {
@@ -54,13 +772,25 @@ export class CommandHandlers {
       await this.binaryManager.ensureBinary();
       new Notice("Building your site...");
 
-      const result = await this.binaryManager.execCommand(["build"]);
+      const { result, run } = await this.runBuild();
+      const problems = run.diagnostics?.length ?? 0;
 
-      if (result.success) {
-        new Notice("Build successful");
+      if (result.cancelled) {
+        new Notice("Build cancelled");
+      } else if (result.success) {
+        new Notice(
+          problems > 0
+            ? `Build successful with ${problems} problem(s)`
+            : "Build successful"
+        );
+      } else if (problems > 0) {
+        new Notice(`Build failed with ${problems} problem(s)`);
+        console.error(result.stderr);
+        await this.showProblems();
       } else {
-        new Notice("Build failed. Check console for details.");
+        new Notice("Build failed. See the build log for details.");
         console.error(result.stderr);
+        await this.showBuildLog();
       }
     } catch (err) {
       new Notice(`Error: ${String(err)}`);
@@ -68,36 +798,176 @@ export class CommandHandlers {
     }
   }
 
-  async preview(): Promise<void> {
+  /**
+   * Build without notices or opening views, for watch mode. The outcome is
+   * in the returned run and the build log.
+   */
+  async buildQuietly(): Promise<CommandRun> {
+    await this.binaryManager.ensureBinary();
+    const { run } = await this.runBuild(true);
+    return run;
+  }
+
+  /**
+   * Open the local preview in the browser, starting the server if needed.
+   * pagePath is the site path to open, e.g. `/notes/my-note/`.
+   */
+  async preview(pagePath: string = "/"): Promise<void> {
+    const wasRunning = await this.previewServer.isRunning();
+    const port = await this.startPreviewServer();
+    if (port === null) return;
+
+    openInBrowser(`http://localhost:${port}${pagePath}`);
+    if (wasRunning) {
+      new Notice("Preview opened in browser");
+    }
+  }
+
+  /**
+   * Start the preview server unless it's already running. Resolves with its
+   * port once it's ready to serve, or null if it failed to start.
+   */
+  async startPreviewServer(): Promise<number | null> {
     try {
-      // Check if server is already running
-      const serverRunning = await isPortInUse(3000);
+      if (await this.previewServer.isRunning()) {
+        this.previewServer.touch();
+        return await this.previewServer.getPort();
+      }
 
-      if (serverRunning) {
-        // Server is already running, just open it
-        openInBrowser("http://localhost:3000");
-        new Notice("Preview opened in browser");
-      } else {
-        // Server not running, start it
-        new Notice("Preparing...");
-        await this.binaryManager.ensureBinary();
-        new Notice("Starting preview server...");
-        void this.binaryManager.execCommand(["serve"]);
+      // Server not running, start it
+      new Notice("Preparing...");
+      await this.binaryManager.ensureBinary();
+      new Notice("Starting preview server...");
+      const configuredPort = getPreviewPort(await readLeafpressConfig(this.app));
+      const result = await this.previewServer.start();
 
-        // Give server a moment to start, then open browser
-        setTimeout(() => {
-          openInBrowser("http://localhost:3000");
-          new Notice("Preview server started");
-        }, 2000);
+      if (result.error) {
+        new Notice(`Failed to start server: ${result.error}`);
+        return null;
       }
+
+      // Give server a moment to start
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+      new Notice(
+        result.port === configuredPort
+          ? "Preview server started"
+          : `Port ${configuredPort} busy, preview server started on port ${result.port}`
+      );
+      return result.port;
     } catch (err) {
       new Notice(`Error: ${String(err)}`);
       console.error(err);
+      return null;
     }
   }
 
+  async showPreviewPane(): Promise<void> {
+    const { workspace } = this.app;
+    let leaf = workspace.getLeavesOfType(VIEW_TYPE_PREVIEW)[0];
+
+    if (!leaf) {
+      leaf = workspace.getLeaf("split", "vertical");
+      await leaf.setViewState({ type: VIEW_TYPE_PREVIEW, active: true });
+    }
+
+    void workspace.revealLeaf(leaf);
+  }
+
+  /**
+   * Open a note's page in the local preview
+   */
+  async previewNote(file: TFile): Promise<void> {
+    if (!(await this.checkNotePublished(file))) return;
+    await this.preview(getNotePagePath(this.app, file));
+  }
+
+  /**
+   * Open a note's page on the deployed site
+   */
+  async openNoteOnLiveSite(file: TFile): Promise<void> {
+    if (!(await this.checkNotePublished(file))) return;
+
+    const siteUrl = await getLiveSiteUrl(this.app);
+    if (!siteUrl) {
+      new Notice("No live site yet. Set a base URL or deploy first.");
+      return;
+    }
+    openInBrowser(`${siteUrl}${getNotePagePath(this.app, file)}`);
+  }
+
+  /**
+   * Copy the live URL of a note, or of a heading or block within it. Still
+   * copies when the page is missing or outdated, but says so.
+   */
+  async copyPublishedLink(file: TFile, format: LinkFormat, anchor?: PageAnchor | null): Promise<void> {
+    const siteUrl = await getLiveSiteUrl(this.app);
+    if (!siteUrl) {
+      new Notice("No live site yet. Set a base URL or deploy first.");
+      return;
+    }
+
+    const fragment = anchor ? `#${encodeURI(anchor.id)}` : "";
+    const url = `${siteUrl}${getNotePagePath(this.app, file)}${fragment}`;
+    const link = formatLink(url, anchor?.text ?? file.basename, format);
+
+    try {
+      await navigator.clipboard.writeText(link);
+    } catch (err) {
+      console.error("[leafpress] Clipboard error:", err);
+      new Notice("Couldn't copy the link to the clipboard");
+      return;
+    }
+
+    const warning = await this.getPublishedLinkWarning(file);
+    new Notice(warning ? `Link copied, but ${warning}` : "Link copied", warning ? 8000 : undefined);
+  }
+
+  private async getPublishedLinkWarning(file: TFile): Promise<string | null> {
+    const reason = getNoteSkipReason(this.app, file, await loadPublishRules(this.app));
+    if (reason === "draft") return "the note is a draft and isn't published.";
+    if (reason) return `the note isn't published (${reason}).`;
+
+    const deployedHash = (await this.getDeployedSourceFiles())[`/${file.path}`];
+    if (!deployedHash) return "the note hasn't been deployed yet.";
+    if (deployedHash !== sha1Hash(await this.app.vault.cachedRead(file))) {
+      return "the note has changed since the last deploy.";
+    }
+    return null;
+  }
+
+  /**
+   * Notes the site leaves out have no page to open
+   */
+  private async checkNotePublished(file: TFile): Promise<boolean> {
+    const reason = getNoteSkipReason(this.app, file, await loadPublishRules(this.app));
+    if (reason === null) return true;
+
+    new Notice(
+      reason === "draft"
+        ? `"${file.basename}" is a draft and isn't published`
+        : `"${file.basename}" isn't published (${reason})`
+    );
+    return false;
+  }
+
   async deploy(reconfigure: boolean = false): Promise<void> {
     try {
+      if (!reconfigure && !(await this.checkDeploySettings())) {
+        return;
+      }
+      if (!reconfigure && !(await this.checkLinksBeforeDeploy())) {
+        return;
+      }
+      if (!reconfigure && !(await this.checkBuildBeforeDeploy())) {
+        return;
+      }
+
+      const previousSourceFiles = await this.getDeployedSourceFiles();
+      if (!reconfigure) {
+        const changes = await getPendingFiles(this.app, previousSourceFiles);
+        if (!(await this.confirmDeploy(changes, true))) return;
+      }
+
       new Notice("Preparing...");
       await this.binaryManager.ensureBinary();
 
@@ -109,67 +979,628 @@ export class CommandHandlers {
         new Notice("Starting deployment...");
       }
 
-      const result = await this.binaryManager.execCommand(args);
+      const { result, run } = await this.runDeploy(args);
+      await this.showDeployResult(result, run, reconfigure ? "Configuration complete" : "Deployed", {
+        previousSourceFiles,
+        siteDir: path.join(this.binaryManager.getVaultPath(), await this.getOutputDir()),
+      });
+    } catch (err) {
+      new Notice(`Error: ${String(err)}`);
+      console.error(err);
+    }
+  }
+
+  /**
+   * Open the deployment setup wizard
+   */
+  openDeploySetup(onComplete?: () => void): void {
+    new DeploySetupModal(this.app, this, this.credentials, onComplete).open();
+  }
 
-      if (result.success) {
-        // Parse deployment URL from output
-        const urlMatch = result.stdout.match(/https?:\/\/[^\s]+/);
-        const url = urlMatch ? urlMatch[0] : "Deployment successful";
+  /**
+   * Build, then run the CLI's deploy setup with its questions answered by
+   * the setup wizard instead of a terminal. Resolves with the deployed URL,
+   * or the reason the deploy didn't go out.
+   */
+  async setUpDeployment(
+    onPrompt: NonNullable<ExecOptions["onPrompt"]>,
+    onOutput?: ExecOptions["onOutput"]
+  ): Promise<{ success: boolean; url?: string; error?: string }> {
+    await this.binaryManager.ensureBinary();
+
+    const build = await this.runBuild(true);
+    if (build.result.cancelled) return { success: false, error: "Cancelled" };
+    if (!build.result.success) {
+      return { success: false, error: build.result.stderr || "The build failed. See the build log for details." };
+    }
 
-        const deployResult: DeploymentSuccess = {
-          url,
-          success: true,
-          output: result.stdout,
-        };
+    const previousSourceFiles = await this.getDeployedSourceFiles();
+    const { result, run } = await this.runDeploy(["deploy", "--skip-build", "--reconfigure"], {
+      background: true,
+      onPrompt,
+      onOutput,
+    });
+    if (result.cancelled) return { success: false, error: "Cancelled" };
+    if (!result.success) {
+      return { success: false, error: result.stderr || "The deploy failed. See the build log for details." };
+    }
 
+    const url = await this.getDeployedUrl(result.stdout);
+    await this.recordDeploy(run, url ?? "", {
+      previousSourceFiles,
+      siteDir: path.join(this.binaryManager.getVaultPath(), await this.getOutputDir()),
+    });
+    await this.snapshotDeployedFiles();
+    return { success: true, url: url ?? undefined };
+  }
+
+  /**
+   * Build and deploy without prompts, for automatic deploys. Problems are
+   * reported as notices instead of opening views or modals.
+   */
+  async autoDeploy(): Promise<void> {
+    if (this.busy) return;
+
+    try {
+      if (!(await this.checkDeploySettings(undefined, true))) {
+        return;
+      }
+
+      // Nobody is there to look at a warning, so it stops the deploy too
+      if (this.settings.linkCheckOnDeploy !== "off") {
+        const issues = await checkLinks(this.app);
+        if (issues.length > 0) {
+          new Notice(
+            `Automatic deploy skipped: ${issues.length} link(s) point to unpublished notes`,
+            10000
+          );
+          return;
+        }
+      }
+
+      // Removing many pages needs someone to confirm it
+      const deletions = (await getPendingFiles(this.app, await this.getDeployedSourceFiles())).filter(
+        (change) => change.status === "deleted"
+      ).length;
+      if (deletions > this.settings.deletionWarningThreshold) {
         new Notice(
-          `${reconfigure ? "Configuration complete" : "Deployed"}: ${url}`
+          `Automatic deploy skipped: ${deletions} pages would be removed from the site. Deploy manually to confirm.`,
+          10000
+        );
+        return;
+      }
+
+      await this.binaryManager.ensureBinary();
+
+      // Unattended, so the build log isn't opened over what the user is doing
+      const build = await this.runBuild(true);
+      if (build.result.cancelled) {
+        new Notice("Automatic deploy cancelled");
+        return;
+      }
+      if (!build.result.success) {
+        new Notice("Automatic deploy skipped: the build failed. See the build log for details.", 10000);
+        return;
+      }
+
+      const previousSourceFiles = await this.getDeployedSourceFiles();
+      const { result, run } = await this.runDeploy(["deploy", "--skip-build"], { background: true });
+      await this.showDeployResult(
+        result,
+        run,
+        "Automatically deployed",
+        {
+          previousSourceFiles,
+          siteDir: path.join(this.binaryManager.getVaultPath(), await this.getOutputDir()),
+        },
+        true
+      );
+    } catch (err) {
+      new Notice(`Automatic deploy failed: ${String(err)}`);
+      console.error(err);
+    }
+  }
+
+  /**
+   * Deploy only the given pending files (vault-relative paths). Every other
+   * pending change is held back: the site is built and deployed from a
+   * staged copy of the vault in which those changes are undone.
+   */
+  async deploySelected(files: string[]): Promise<void> {
+    try {
+      if (files.length === 0) {
+        new Notice("No changes selected");
+        return;
+      }
+      if (this.busy) {
+        new Notice("Another operation is already in progress");
+        return;
+      }
+
+      if (!(await this.checkDeploySettings())) {
+        return;
+      }
+
+      const previousSourceFiles = await this.getDeployedSourceFiles();
+      const pending = await getPendingFiles(this.app, previousSourceFiles);
+      const selected = new Set(files);
+      const heldBack = pending.filter((file) => !selected.has(file.file));
+
+      // Nothing to hold back, so this is a regular deploy
+      if (heldBack.length === 0) {
+        await this.deploy();
+        return;
+      }
+
+      if (!(await this.checkLinksBeforeDeploy())) {
+        return;
+      }
+
+      // The selection is built fresh in the stage, so the vault's build doesn't matter
+      const changes = pending.filter((file) => selected.has(file.file));
+      if (!(await this.confirmDeploy(changes, false))) return;
+
+      new Notice("Preparing...");
+      await this.binaryManager.ensureBinary();
+
+      const vaultPath = this.binaryManager.getVaultPath();
+      const stagePath = await createDeployStage(this.app, vaultPath, heldBack);
+      try {
+        new Notice(`Building ${files.length} selected change(s)...`);
+        await this.deployFromStage(stagePath, {
+          build: true,
+          label: `Deployed ${files.length} change(s)`,
+          previousSourceFiles,
+        });
+      } finally {
+        await removeDeployStage(stagePath);
+      }
+    } catch (err) {
+      new Notice(`Error: ${String(err)}`);
+      console.error(err);
+    }
+  }
+
+  /**
+   * Publish an earlier deploy again, to the target it went to, from its
+   * saved site when there is one, otherwise by rebuilding its sources from
+   * their snapshots
+   */
+  async redeploy(id: string): Promise<void> {
+    try {
+      if (this.busy) {
+        new Notice("Another operation is already in progress");
+        return;
+      }
+
+      const entry = (await readDeployHistory(this.app)).find((item) => item.id === id);
+      if (!entry) {
+        new Notice("This deploy is no longer in the history");
+        return;
+      }
+
+      let target: DeployTarget | null = null;
+      if (entry.target !== undefined) {
+        target = getDeployTarget(await readLeafpressConfig(this.app), entry.target);
+        if (!target) {
+          new Notice(`The deploy target "${entry.target}" no longer exists`);
+          return;
+        }
+      }
+      if (!(await this.checkDeploySettings(target ?? undefined))) {
+        return;
+      }
+
+      new Notice("Preparing...");
+      await this.binaryManager.ensureBinary();
+
+      const vaultPath = this.binaryManager.getVaultPath();
+      const previousSourceFiles = await this.getDeployedSourceFiles(target?.name);
+      let stagePath: string;
+      if (entry.hasSiteSnapshot) {
+        stagePath = await createRedeployStage(
+          this.app,
+          vaultPath,
+          path.join(vaultPath, getSiteSnapshotPath(this.app, entry.id)),
+          await this.getOutputDir()
         );
-        new DeploymentResultModal(this.app, deployResult).open();
       } else {
-        // Check for specific error types
-        const isNonInteractiveError = result.stderr.includes(
-          "non-interactive mode"
+        const changes = await getPendingFiles(this.app, entry.sourceFiles);
+        stagePath = await createDeployStage(this.app, vaultPath, changes);
+      }
+
+      try {
+        const configHash = target ? await this.stageTarget(stagePath, target) : undefined;
+        new Notice(
+          entry.hasSiteSnapshot ? "Redeploying saved site..." : "Rebuilding earlier version..."
         );
-        const isMissingTokenError =
-          result.stderr.includes("no deploy configuration") ||
-          result.stderr.includes("token") ||
-          result.stderr.includes("authentication");
-
-        const errorResult: DeploymentError = {
-          success: false,
-          error: result.stderr,
-          output: result.stdout,
-          isNonInteractiveError,
-          isMissingTokenError,
-        };
-        new DeploymentResultModal(this.app, errorResult).open();
+        await this.deployFromStage(stagePath, {
+          build: !entry.hasSiteSnapshot,
+          label: "Redeployed",
+          previousSourceFiles,
+          // A saved site has no sources in the stage, so record the original ones
+          sourceFiles: entry.hasSiteSnapshot ? entry.sourceFiles : undefined,
+          redeployOf: entry.id,
+          target: target?.name,
+          configHash,
+        });
+      } finally {
+        await removeDeployStage(stagePath);
+      }
+    } catch (err) {
+      new Notice(`Error: ${String(err)}`);
+      console.error(err);
+    }
+  }
+
+  /**
+   * Build and deploy the vault to a named deploy target, such as staging,
+   * leaving production and its deploy state untouched
+   */
+  async deployToTarget(name: string): Promise<void> {
+    try {
+      if (this.busy) {
+        new Notice("Another operation is already in progress");
+        return;
+      }
+
+      const target = getDeployTarget(await readLeafpressConfig(this.app), name);
+      if (!target) {
+        new Notice(`No deploy target named "${name}"`);
+        return;
+      }
+
+      if (!(await this.checkDeploySettings(target))) {
+        return;
+      }
+      if (!(await this.checkLinksBeforeDeploy())) {
+        return;
+      }
+
+      // Targets are built fresh in the stage, so the vault's build doesn't matter
+      const previousSourceFiles = await this.getDeployedSourceFiles(target.name);
+      const changes = await getPendingFiles(this.app, previousSourceFiles);
+      if (!(await this.confirmDeploy(changes, false, target))) return;
+
+      new Notice("Preparing...");
+      await this.binaryManager.ensureBinary();
+
+      const stagePath = await createDeployStage(this.app, this.binaryManager.getVaultPath(), []);
+      try {
+        const configHash = await this.stageTarget(stagePath, target);
+        new Notice(`Building for ${target.name}...`);
+        await this.deployFromStage(stagePath, {
+          build: true,
+          label: `Deployed to ${target.name}`,
+          previousSourceFiles,
+          target: target.name,
+          configHash,
+        });
+      } finally {
+        await removeDeployStage(stagePath);
+      }
+    } catch (err) {
+      new Notice(`Error: ${String(err)}`);
+      console.error(err);
+    }
+  }
+
+  /**
+   * Deploy to production exactly what was last deployed to a named target.
+   * Its saved site is reused unless the target builds with its own base URL,
+   * in which case the same notes are rebuilt for production.
+   */
+  async promote(name: string): Promise<void> {
+    try {
+      if (this.busy) {
+        new Notice("Another operation is already in progress");
+        return;
+      }
+
+      const target = getDeployTarget(await readLeafpressConfig(this.app), name);
+      if (!target) {
+        new Notice(`No deploy target named "${name}"`);
+        return;
+      }
+
+      // Promoting deploys to production
+      if (!(await this.checkDeploySettings())) {
+        return;
+      }
+
+      const key = getTargetKey(target.name);
+      const entry = (await readDeployHistory(this.app)).find(
+        (item) => item.target !== undefined && getTargetKey(item.target) === key
+      );
+      if (!entry) {
+        new Notice(`Nothing has been deployed to ${target.name} yet`);
+        return;
+      }
+
+      const previousSourceFiles = await this.getDeployedSourceFiles();
+      const changes = diffSourceFiles(previousSourceFiles, entry.sourceFiles);
+      if (!(await this.confirmDeploy(changes, false))) return;
+
+      new Notice("Preparing...");
+      await this.binaryManager.ensureBinary();
+
+      const vaultPath = this.binaryManager.getVaultPath();
+      const reuseSite = entry.hasSiteSnapshot && !target.baseURL;
+      const stagePath = reuseSite
+        ? await createRedeployStage(
+            this.app,
+            vaultPath,
+            path.join(vaultPath, getSiteSnapshotPath(this.app, entry.id)),
+            await this.getOutputDir()
+          )
+        : await createDeployStage(this.app, vaultPath, await getPendingFiles(this.app, entry.sourceFiles));
+
+      try {
+        new Notice(`Promoting ${target.name} to ${PRODUCTION_LABEL.toLowerCase()}...`);
+        await this.deployFromStage(stagePath, {
+          build: !reuseSite,
+          label: `Promoted ${target.name}`,
+          previousSourceFiles,
+          sourceFiles: reuseSite ? entry.sourceFiles : undefined,
+          redeployOf: entry.id,
+        });
+      } finally {
+        await removeDeployStage(stagePath);
       }
     } catch (err) {
       new Notice(`Error: ${String(err)}`);
       console.error(err);
     }
   }
+
+  /**
+   * Rewrite a stage for a named target. Returns the config hash its deploy
+   * state should record.
+   */
+  private async stageTarget(stagePath: string, target: DeployTarget): Promise<string> {
+    const statePath = path.join(
+      this.binaryManager.getVaultPath(),
+      getTargetStatePath(this.app, target.name)
+    );
+    return applyDeployTarget(stagePath, target, statePath);
+  }
+
+  /**
+   * Pending changes per deploy target, production first (under undefined)
+   */
+  async getTargetPendingCounts(): Promise<Array<{ target?: DeployTarget; pending: number }>> {
+    const config = await readLeafpressConfig(this.app);
+    const counts: Array<{ target?: DeployTarget; pending: number }> = [
+      { pending: (await getPendingFiles(this.app, await this.getDeployedSourceFiles())).length },
+    ];
+    for (const target of config?.targets ?? []) {
+      const deployed = await this.getDeployedSourceFiles(target.name);
+      counts.push({ target, pending: (await getPendingFiles(this.app, deployed)).length });
+    }
+    return counts;
+  }
+
+  /**
+   * Build (optionally) and deploy from a staged copy of the vault, then
+   * bring the resulting deploy state back into the vault
+   */
+  private async deployFromStage(
+    stagePath: string,
+    options: {
+      build: boolean;
+      label: string;
+      previousSourceFiles: Record<string, string>;
+      sourceFiles?: Record<string, string>;
+      redeployOf?: string;
+      target?: string;
+      // Hash of the vault's config, when the stage's was rewritten for a target
+      configHash?: string;
+    }
+  ): Promise<void> {
+    const statePath = path.join(
+      this.binaryManager.getVaultPath(),
+      getTargetStatePath(this.app, options.target)
+    );
+
+    if (options.build) {
+      const build = await this.runLogged("build", ["build"], this.settings.buildTimeoutMinutes, {
+        cwd: stagePath,
+      });
+      if (build.result.cancelled) {
+        new Notice("Deployment cancelled");
+        return;
+      }
+      if (!build.result.success) {
+        new Notice("Build failed. See the build log for details.");
+        await this.showBuildLog();
+        return;
+      }
+    }
+
+    new Notice("Starting deployment...");
+    const { result, run } = await this.runDeploy(["deploy", "--skip-build"], {
+      cwd: stagePath,
+      // Record what was shipped before anyone reacts to the deploy finishing
+      beforeFinish: async (result) => {
+        if (result.success) {
+          await adoptStagedDeployState(stagePath, statePath, {
+            sourceFiles: options.sourceFiles,
+            configHash: options.configHash,
+          });
+        }
+      },
+    });
+    await this.showDeployResult(result, run, options.label, {
+      previousSourceFiles: options.previousSourceFiles,
+      siteDir: path.join(stagePath, await this.getOutputDir()),
+      redeployOf: options.redeployOf,
+      target: options.target,
+    });
+  }
+
+  private async getDeployedSourceFiles(target?: string): Promise<Record<string, string>> {
+    const deployState = await readDeployState(this.app, getTargetStatePath(this.app, target));
+    return deployState?.lastDeploy?.sourceFiles ?? {};
+  }
+
+  private async getOutputDir(): Promise<string> {
+    const config = await readLeafpressConfig(this.app);
+    return config?.outputDir || "_site";
+  }
+
+  /**
+   * Report a finished deploy run, recording it in the deploy history when
+   * it succeeded
+   */
+  private async showDeployResult(
+    result: CLIResult,
+    run: CommandRun,
+    successLabel: string,
+    record: DeployRecord,
+    unattended: boolean = false
+  ): Promise<void> {
+    if (result.cancelled) {
+      new Notice("Deployment cancelled");
+    } else if (result.success && unattended) {
+      const url = await this.getDeployedUrl(result.stdout, record.target);
+      await this.recordDeploy(run, url ?? "", record);
+      await this.snapshotDeployedFiles(record.target);
+
+      const changes = diffSourceFiles(
+        record.previousSourceFiles,
+        await this.getDeployedSourceFiles(record.target)
+      );
+      const files = changes.slice(0, 5).map((change) => change.file);
+      const more = changes.length > files.length ? ` and ${changes.length - files.length} more` : "";
+      new Notice(
+        `${successLabel} ${changes.length} change(s)${url ? ` to ${url}` : ""}` +
+          (files.length > 0 ? `: ${files.join(", ")}${more}` : ""),
+        10000
+      );
+    } else if (result.success) {
+      const deployedUrl = await this.getDeployedUrl(result.stdout, record.target);
+      const url = deployedUrl ?? "Deployment successful";
+
+      const deployResult: DeploymentSuccess = {
+        url,
+        success: true,
+        output: result.stdout,
+      };
+
+      new Notice(`${successLabel}: ${url}`);
+      await this.recordDeploy(run, deployedUrl ?? "", record);
+      await this.snapshotDeployedFiles(record.target);
+      new DeploymentResultModal(this.app, deployResult, () => this.openDeploySetup()).open();
+    } else {
+      // Check for specific error types
+      const isNonInteractiveError = result.stderr.includes(
+        "non-interactive mode"
+      );
+      const isMissingTokenError =
+        result.stderr.includes("no deploy configuration") ||
+        result.stderr.includes("token") ||
+        result.stderr.includes("authentication");
+
+      // Remember a rejected token so the panel and settings show it
+      if (
+        /\b401\b|unauthori[sz]ed|bad credentials|invalid token|token (has )?expired|InvalidAccessKeyId|SignatureDoesNotMatch/i.test(
+          result.stderr
+        )
+      ) {
+        const config = await readLeafpressConfig(this.app);
+        const provider =
+          record.target !== undefined
+            ? getDeployTarget(config, record.target)?.provider
+            : config?.deploy?.provider;
+        if (provider) await this.credentials.markInvalid(provider);
+      }
+
+      const errorResult: DeploymentError = {
+        success: false,
+        error: result.stderr,
+        output: result.stdout,
+        isNonInteractiveError,
+        isMissingTokenError,
+      };
+      if (unattended) {
+        new Notice("Automatic deploy failed. See the build log for details.", 10000);
+        return;
+      }
+      new DeploymentResultModal(this.app, errorResult, () => this.openDeploySetup()).open();
+    }
+  }
+
+  /**
+   * Where a deploy went: the first URL in the CLI's output, or else the
+   * address the provider's settings publish at
+   */
+  private async getDeployedUrl(output: string, target?: string): Promise<string | null> {
+    const urlMatch = output.match(/https?:\/\/[^\s]+/);
+    if (urlMatch) return urlMatch[0];
+
+    const config = await readLeafpressConfig(this.app);
+    const deploy = target !== undefined ? getDeployTarget(config, target) : config?.deploy;
+    return getDeployUrl(deploy ?? undefined);
+  }
+
+  /**
+   * Add a successful deploy to the history, keeping a copy of the built site
+   */
+  private async recordDeploy(run: CommandRun, url: string, record: DeployRecord): Promise<void> {
+    try {
+      const deployState = await readDeployState(this.app, getTargetStatePath(this.app, record.target));
+      const sourceFiles = deployState?.lastDeploy?.sourceFiles ?? {};
+      const config = await readLeafpressConfig(this.app);
+      const target = record.target !== undefined ? getDeployTarget(config, record.target) : null;
+      const id = String(run.startedAt);
+
+      let hasSiteSnapshot = false;
+      if (this.settings.siteSnapshotCount > 0) {
+        try {
+          await copyDirectory(
+            record.siteDir,
+            path.join(this.binaryManager.getVaultPath(), getSiteSnapshotPath(this.app, id))
+          );
+          hasSiteSnapshot = true;
+        } catch (err) {
+          console.error("[leafpress] Error saving site snapshot:", err);
+        }
+      }
+
+      await addDeployHistoryEntry(
+        this.app,
+        {
+          id,
+          timestamp: deployState?.lastDeploy?.timestamp ?? new Date().toISOString(),
+          provider: (target ? target.provider : config?.deploy?.provider) ?? "",
+          url: url || deployState?.lastDeploy?.url || "",
+          cliVersion: await this.binaryManager.getBinaryVersion(),
+          durationMs: (run.finishedAt ?? Date.now()) - run.startedAt,
+          changedFiles: diffSourceFiles(record.previousSourceFiles, sourceFiles).map(
+            ({ status, file }) => ({ status, file })
+          ),
+          sourceFiles,
+          hasSiteSnapshot,
+          redeployOf: record.redeployOf,
+          target: record.target,
+        },
+        this.settings.deployHistorySize,
+        this.settings.siteSnapshotCount
+      );
+    } catch (err) {
+      console.error("[leafpress] Error recording deploy history:", err);
+    }
+  }
 }
 
 class DeploymentResultModal extends Modal {
   private result: DeploymentResult;
-  private vaultPath: string;
+  private openSetup: () => void;
 
-  constructor(app: App, result: DeploymentResult) {
+  constructor(app: App, result: DeploymentResult, openSetup: () => void) {
     super(app);
     this.result = result;
-    const adapter = this.app.vault.adapter as FileSystemAdapter;
-    this.vaultPath = adapter.basePath ?? adapter.path ?? "";
-  }
-
-  private getDeployCommand(): string {
-    const configDir = this.app.vault.configDir;
-    const isWindows = process.platform === "win32";
-    if (isWindows) {
-      return `cd "${this.vaultPath}" && .\\${configDir}\\plugins\\leafpress\\bin\\leafpress.exe deploy`;
-    }
-    return `cd "${this.vaultPath}" && ./${configDir}/plugins/leafpress/bin/leafpress deploy`;
+    this.openSetup = openSetup;
   }
 
   onOpen(): void {
@@ -208,61 +1639,27 @@ class DeploymentResultModal extends Modal {
     const errorResult = result as DeploymentError;
     contentEl.createEl("h2", { text: "Deployment failed" });
 
-    // Special handling for non-interactive mode errors
-    if (errorResult.isNonInteractiveError) {
-        const instructionsEl = contentEl.createEl("div", {
-          cls: "leafpress-warning-box",
-        });
-
-        instructionsEl.createEl("strong", { text: "Setup required" });
-        const setupSteps = instructionsEl.createEl("ol", { cls: "leafpress-steps" });
-
-        const li1 = setupSteps.createEl("li");
-        li1.appendText("Run in terminal: ");
-        const code1 = li1.createEl("code");
-        code1.textContent = this.getDeployCommand();
-
-        const li2 = setupSteps.createEl("li");
-        li2.textContent =
-          "Complete the authentication/configuration in the interactive prompt";
-
-        const li3 = setupSteps.createEl("li");
-        li3.textContent =
-          "After setup, you can deploy from the plugin";
-
-        const docsEl = instructionsEl.createEl("p", { cls: "leafpress-info-text" });
-        docsEl.createEl("strong", { text: "Why?" });
-        docsEl.appendChild(
-          document.createTextNode(
-            " Initial setup requires browser authentication or token entry, which needs an interactive terminal."
-          )
-        );
-    } else if (errorResult.isMissingTokenError) {
-      const tokenEl = contentEl.createEl("div", {
+    // Setup and sign-in questions can't be answered in the background
+    if (errorResult.isNonInteractiveError || errorResult.isMissingTokenError) {
+      const setupEl = contentEl.createEl("div", {
         cls: "leafpress-warning-box",
       });
 
-      tokenEl.createEl("strong", { text: "Authentication required" });
-      const tokenSteps = tokenEl.createEl("ol", { cls: "leafpress-steps" });
-
-      const li1 = tokenSteps.createEl("li");
-      li1.appendText("Run in terminal: ");
-      const code2 = li1.createEl("code");
-      code2.textContent = this.getDeployCommand();
-
-      const li2 = tokenSteps.createEl("li");
-      li2.textContent = "Complete the provider authentication setup";
-
-      const li3 = tokenSteps.createEl("li");
-      li3.textContent = "Then deploy again from the Obsidian plugin";
+      setupEl.createEl("strong", {
+        text: errorResult.isNonInteractiveError ? "Setup required" : "Authentication required",
+      });
+      setupEl.createEl("p", {
+        text: errorResult.isNonInteractiveError
+          ? "Deployment hasn't been set up yet. The setup wizard asks for the provider details and a token, then deploys."
+          : "The provider didn't accept the deploy. Enter a new token under Deployment in settings, or run the setup wizard again.",
+        cls: "leafpress-info-text",
+      });
 
-      const infoEl = tokenEl.createEl("p", { cls: "leafpress-info-text" });
-      infoEl.createEl("strong", { text: "Note:" });
-      infoEl.appendChild(
-        document.createTextNode(
-          " Tokens and deployment config must be set up interactively first."
-        )
-      );
+      const setupBtn = setupEl.createEl("button", { text: "Set up deployment", cls: "mod-cta" });
+      setupBtn.addEventListener("click", () => {
+        this.close();
+        this.openSetup();
+      });
     } else if (errorResult.error) {
       const errorEl = contentEl.createEl("div", {
         cls: "deployment-result-section",
@@ -274,8 +1671,8 @@ class DeploymentResultModal extends Modal {
 
     const infoEl = contentEl.createEl("p", { cls: "leafpress-muted-text" });
     infoEl.textContent = errorResult.isNonInteractiveError
-      ? "Check the console for more details on deployment output."
-      : "Check the console for more details. Ensure deployment is configured correctly.";
+      ? "Open the build log for the full deployment output."
+      : "Open the build log for the full output. Ensure deployment is configured correctly.";
 
     const closeBtn = contentEl.createEl("button", {
       text: "Close",
@@ -433,7 +1830,7 @@ Open the **leafpress** settings panel to:
 ### 3. Build & deploy
 
 - **Build site** - Compiles all notes to static HTML
-- **Preview site** - Start a local dev server at http://localhost:3000
+- **Preview site** - Start a local dev server (http://localhost:3000 by default)
 - **Deploy** - Push your site to hosting (GitHub Pages, Vercel, etc.)
 
 ## File structure
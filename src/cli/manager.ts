@@ -4,7 +4,19 @@ import { promises as fs } from "fs";
 import * as path from "path";
 import * as os from "os";
 import * as crypto from "crypto";
-import { CLIResult, GitHubRelease, GitHubAsset } from "./types";
+import { CLIResult, ExecOptions, OutputStream, GitHubRelease, GitHubAsset } from "./types";
+import { isPortInUse, findFreePort, killProcessTree } from "../utils/platform";
+import { getPluginDir } from "../utils/plugin-dir";
+
+const DEFAULT_COMMAND_TIMEOUT_MS = 5 * 60 * 1000;
+
+// A partial line ending like a question that waits for input, e.g.
+// "GitHub token: " or "Continue? (y/N) "
+const PROMPT_PATTERN = /[:?>\]]\s*$/;
+
+// How long output must stay quiet after such a line before it counts as a
+// question, so output that merely splits after a ":" isn't answered
+const PROMPT_QUIET_MS = 400;
 
 interface PluginSettings {
   customBinaryPath: string;
@@ -20,13 +32,15 @@ export class BinaryManager {
   private app: App;
   private customBinaryPath: string;
   private vaultPath: string | null = null;
+  // The running build or deploy, stopped by cancelActiveCommand
+  private activeCommand: { cancel(): void } | null = null;
 
   constructor(app: App, settings: PluginSettings) {
     this.app = app;
     this.customBinaryPath = settings.customBinaryPath;
   }
 
-  private getVaultPath(): string {
+  getVaultPath(): string {
     if (this.vaultPath) return this.vaultPath;
 
     try {
@@ -97,8 +111,7 @@ export class BinaryManager {
     }
 
     const { executable } = this.getPlatformInfo();
-    const configDir = this.app.vault.configDir;
-    return path.join(this.getVaultPath(), configDir, "plugins/leafpress/bin", executable);
+    return path.join(this.getVaultPath(), getPluginDir(this.app), "bin", executable);
   }
 
   private matchAssetName(pattern: string, assetName: string): boolean {
@@ -157,8 +170,7 @@ export class BinaryManager {
 
       // Create bin directory
       const vaultPath = this.getVaultPath();
-      const configDir = this.app.vault.configDir;
-      const binDir = path.join(vaultPath, configDir, "plugins/leafpress/bin");
+      const binDir = path.join(vaultPath, getPluginDir(this.app), "bin");
       await fs.mkdir(binDir, { recursive: true });
 
       // Download archive using Obsidian's requestUrl
@@ -333,6 +345,22 @@ export class BinaryManager {
     }
   }
 
+  /**
+   * Version reported by the installed binary, or null if it can't be determined
+   */
+  async getBinaryVersion(): Promise<string | null> {
+    try {
+      const result = await this.execCommand(["--version"]);
+      if (!result.success) return null;
+      // Match versions like: 1.0.0, v1.0.0, 1.0.0-alpha, 1.0.0-alpha.1, 1.0.0-beta.2
+      const match = result.stdout.match(/v?(\d+\.\d+\.\d+(?:-[a-zA-Z0-9.]+)?)/);
+      return match ? match[1] : null;
+    } catch {
+      // Could not determine current version
+      return null;
+    }
+  }
+
   async checkForUpdates(): Promise<{ currentVersion: string; latestVersion: string; hasUpdate: boolean } | null> {
     try {
       const REPO = "shivamx96/leafpress";
@@ -353,17 +381,7 @@ export class BinaryManager {
       latestVersion = latestVersion.replace(/^v/, "");
 
       // Try to get current version from binary or default to 0.0.0
-      let currentVersion = "0.0.0";
-      try {
-        const result = await this.execCommand(["--version"]);
-        if (result.success) {
-          // Match versions like: 1.0.0, v1.0.0, 1.0.0-alpha, 1.0.0-alpha.1, 1.0.0-beta.2
-          const match = result.stdout.match(/v?(\d+\.\d+\.\d+(?:-[a-zA-Z0-9.]+)?)/);
-          currentVersion = match ? match[1] : "0.0.0";
-        }
-      } catch {
-        // Could not determine current version
-      }
+      const currentVersion = (await this.getBinaryVersion()) ?? "0.0.0";
 
       const hasUpdate = this.compareVersions(currentVersion, latestVersion) < 0;
 
@@ -478,37 +496,132 @@ export class BinaryManager {
     return 0;
   }
 
-  async execCommand(args: string[]): Promise<CLIResult> {
+  async execCommand(args: string[], options: ExecOptions = {}): Promise<CLIResult> {
     await this.ensureBinary();
 
     return new Promise((resolve) => {
       let stdout = "";
       let stderr = "";
+      const pending: Record<OutputStream, string> = { stdout: "", stderr: "" };
+      // The prompt last answered, so it isn't answered again while the
+      // command works; cleared once more output arrives
+      let answeredPrompt: string | null = null;
+      let promptTimer: ReturnType<typeof setTimeout> | null = null;
+
+      // Split chunks into lines for streaming consumers, holding back
+      // any partial line until the rest of it arrives
+      const emit = (chunk: string, stream: OutputStream) => {
+        if (promptTimer !== null) {
+          clearTimeout(promptTimer);
+          promptTimer = null;
+        }
+        if (!options.onOutput && !options.onPrompt) return;
+        const lines = (pending[stream] + chunk).split(/\r?\n/);
+        pending[stream] = lines.pop() ?? "";
+        if (lines.length > 0) answeredPrompt = null;
+        for (const line of lines) {
+          options.onOutput?.(line, stream);
+        }
+        if (options.onPrompt && PROMPT_PATTERN.test(pending[stream])) {
+          promptTimer = setTimeout(() => {
+            promptTimer = null;
+            checkPrompt(stream);
+          }, PROMPT_QUIET_MS);
+        }
+      };
+
+      // A command that stops mid-line at a question, and stays quiet, is
+      // waiting on stdin
+      const checkPrompt = (stream: OutputStream) => {
+        const prompt = pending[stream];
+        if (!options.onPrompt || !PROMPT_PATTERN.test(prompt) || prompt === answeredPrompt) return;
+        answeredPrompt = prompt;
+
+        void options.onPrompt(prompt.trim()).then((answer) => {
+          if (settled || child.exitCode !== null) return;
+          if (answer === null) {
+            activeCommand.cancel();
+            return;
+          }
+          child.stdin?.write(`${answer}\n`);
+        });
+      };
 
+      const flush = () => {
+        if (!options.onOutput) return;
+        for (const stream of ["stdout", "stderr"] as OutputStream[]) {
+          if (pending[stream]) {
+            options.onOutput(pending[stream], stream);
+            pending[stream] = "";
+          }
+        }
+      };
+
+      // Spawn in its own process group so cancel can take down the whole tree
       const child = spawn(this.getBinaryPath(), args, {
-        cwd: this.getVaultPath(),
-        env: process.env,
+        cwd: options.cwd ?? this.getVaultPath(),
+        env: options.env ? { ...process.env, ...options.env } : process.env,
+        detached: process.platform !== "win32",
+      });
+
+      let settled = false;
+      let stopReason: "cancelled" | "timeout" | null = null;
+      const activeCommand = {
+        cancel: () => {
+          stopReason = "cancelled";
+          this.terminate(child);
+        },
+      };
+      if (options.cancellable) {
+        this.activeCommand = activeCommand;
+      }
+
+      // Writing an answer just as the command exits fails with EPIPE
+      child.stdin?.on("error", (err) => {
+        console.warn("[leafpress] Could not write to command input:", err);
       });
 
+      const finish = (result: CLIResult) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        if (promptTimer !== null) clearTimeout(promptTimer);
+        if (this.activeCommand === activeCommand) {
+          this.activeCommand = null;
+        }
+        resolve(result);
+      };
+
       child.stdout?.on("data", (data: Buffer) => {
-        stdout += data.toString();
+        const text = data.toString();
+        stdout += text;
+        emit(text, "stdout");
       });
 
       child.stderr?.on("data", (data: Buffer) => {
-        stderr += data.toString();
+        const text = data.toString();
+        stderr += text;
+        emit(text, "stderr");
       });
 
       child.on("close", (code) => {
-        resolve({
-          success: code === 0,
-          stdout,
-          stderr,
-          code: code || 1,
-        });
+        flush();
+        if (stopReason === "cancelled") {
+          finish({ success: false, stdout, stderr, code: code ?? -1, cancelled: true });
+        } else if (stopReason === "timeout") {
+          finish({ success: false, stdout, stderr: "Command timed out", code: -1, timedOut: true });
+        } else {
+          finish({
+            success: code === 0,
+            stdout,
+            stderr,
+            code: code ?? 1,
+          });
+        }
       });
 
       child.on("error", (err) => {
-        resolve({
+        finish({
           success: false,
           stdout,
           stderr: err.message,
@@ -516,40 +629,66 @@ export class BinaryManager {
         });
       });
 
-      // Timeout after 5 minutes
       const timeout = setTimeout(() => {
-        child.kill("SIGTERM");
-        // Give process time to cleanup, then force kill
-        setTimeout(() => {
-          if (!child.killed) {
-            child.kill("SIGKILL");
-          }
-        }, 3000);
-        resolve({
-          success: false,
-          stdout,
-          stderr: "Command timed out",
-          code: -1,
-        });
-      }, 5 * 60 * 1000);
-
-      // Clear timeout if process exits normally
-      child.on("exit", () => clearTimeout(timeout));
+        stopReason = "timeout";
+        this.terminate(child);
+      }, options.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS);
     });
   }
 
   /**
-   * Start a long-running server process. Returns the child process
-   * so caller can manage its lifecycle. Does not timeout.
+   * Cancel the running build or deploy (a command started as cancellable),
+   * killing its process tree.
+   * Returns false if nothing was running.
    */
-  async startServerProcess(): Promise<{ process: ChildProcess | null; error?: string }> {
+  cancelActiveCommand(): boolean {
+    if (!this.activeCommand) return false;
+    this.activeCommand.cancel();
+    return true;
+  }
+
+  private terminate(child: ChildProcess): void {
+    if (child.pid === undefined || child.exitCode !== null) return;
+    const pid = child.pid;
+
+    killProcessTree(pid, "SIGTERM");
+    // Give process time to cleanup, then force kill
+    setTimeout(() => {
+      if (child.exitCode === null && child.signalCode !== "SIGKILL") {
+        killProcessTree(pid, "SIGKILL");
+      }
+    }, 3000);
+  }
+
+  /**
+   * Start a long-running server process on the given port. If the port is
+   * busy and autoSelectPort is set, the next free port is used instead.
+   * Returns the child process and the port it listens on so caller can
+   * manage its lifecycle. Does not timeout.
+   */
+  async startServerProcess(
+    requestedPort: number,
+    autoSelectPort: boolean = false
+  ): Promise<{ process: ChildProcess | null; port: number; error?: string }> {
     try {
       await this.ensureBinary();
     } catch (err) {
-      return { process: null, error: `Failed to ensure binary: ${err}` };
+      return { process: null, port: requestedPort, error: `Failed to ensure binary: ${err}` };
+    }
+
+    let port = requestedPort;
+    if (await isPortInUse(port)) {
+      if (!autoSelectPort) {
+        return { process: null, port, error: `Port ${port} is already in use` };
+      }
+      const freePort = await findFreePort(port + 1);
+      if (freePort === null) {
+        return { process: null, port, error: `No free port found after ${port}` };
+      }
+      port = freePort;
     }
 
-    const child = spawn(this.getBinaryPath(), ["serve"], {
+    const child = spawn(this.getBinaryPath(), ["serve", "--port", String(port)], {
       cwd: this.getVaultPath(),
       env: process.env,
       detached: false,
@@ -562,7 +701,7 @@ export class BinaryManager {
       child.on("error", (err) => {
         if (!resolved) {
           resolved = true;
-          resolve({ process: child, error: err.message });
+          resolve({ process: child, port, error: err.message });
         }
       });
 
@@ -570,7 +709,7 @@ export class BinaryManager {
       setTimeout(() => {
         if (!resolved) {
           resolved = true;
-          resolve({ process: child });
+          resolve({ process: child, port });
         }
       }, 500);
     });
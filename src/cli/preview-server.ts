@@ -0,0 +1,198 @@
+import { App, Component, Notice } from "obsidian";
+import { ChildProcess } from "child_process";
+import { BinaryManager } from "./manager";
+import { RunLog } from "./run-log";
+import { readLeafpressConfig, getPreviewPort } from "../utils/config";
+import { isPortInUse, killPortProcess } from "../utils/platform";
+import { LeafpressPluginSettings } from "../settings";
+
+// How often idle shutdown is checked
+const IDLE_CHECK_MS = 60 * 1000;
+
+/**
+ * Owns the `leafpress serve` process for the whole plugin, so the commands
+ * and the panel share one server. The server outlives the panel, stops when
+ * the plugin unloads, and can stop itself after a period of inactivity.
+ */
+export class PreviewServer extends Component {
+  private app: App;
+  private binaryManager: BinaryManager;
+  private settings: LeafpressPluginSettings;
+  private runLog: RunLog;
+  private process: ChildProcess | null = null;
+  private port: number | null = null;
+  private starting: Promise<{ port: number; error?: string }> | null = null;
+  private lastActivity = Date.now();
+  private listeners = new Set<() => void>();
+
+  constructor(
+    app: App,
+    binaryManager: BinaryManager,
+    settings: LeafpressPluginSettings,
+    runLog: RunLog
+  ) {
+    super();
+    this.app = app;
+    this.binaryManager = binaryManager;
+    this.settings = settings;
+    this.runLog = runLog;
+  }
+
+  onload(): void {
+    // Editing notes and rebuilding count as using the preview
+    this.registerEvent(this.app.vault.on("modify", () => this.touch()));
+    this.register(
+      this.runLog.onChange((run) => {
+        if (run.finishedAt) this.touch();
+      })
+    );
+
+    this.registerInterval(
+      window.setInterval(() => {
+        void this.checkIdle();
+      }, IDLE_CHECK_MS)
+    );
+  }
+
+  onunload(): void {
+    // Only our own server; a server started elsewhere is left alone
+    if (this.process) {
+      this.binaryManager.stopServerProcess(this.process);
+      this.process = null;
+      this.port = null;
+    }
+    this.listeners.clear();
+  }
+
+  /**
+   * Port the server is (or would be) listening on: the port of the server
+   * we started, falling back to the port from leafpress.json
+   */
+  async getPort(): Promise<number> {
+    if (this.port !== null) return this.port;
+    const config = await readLeafpressConfig(this.app);
+    return getPreviewPort(config);
+  }
+
+  async isRunning(): Promise<boolean> {
+    // With auto-select on, a foreign process on the configured port isn't our server
+    if (this.port === null && this.settings.autoSelectPort) {
+      return false;
+    }
+    return isPortInUse(await this.getPort());
+  }
+
+  /**
+   * Start the server unless it's already running. Resolves with the port it
+   * listens on, or an error message.
+   */
+  async start(): Promise<{ port: number; error?: string }> {
+    this.touch();
+
+    // Prevent race condition from multiple rapid starts
+    if (this.starting !== null) return this.starting;
+
+    if (await this.isRunning()) {
+      return { port: await this.getPort() };
+    }
+
+    this.starting = this.spawn();
+    try {
+      return await this.starting;
+    } finally {
+      this.starting = null;
+    }
+  }
+
+  /**
+   * Stop the server. Falls back to stopping whatever listens on the preview
+   * port when we didn't start it (e.g. left over from an earlier session).
+   */
+  async stop(): Promise<void> {
+    try {
+      if (this.process) {
+        this.binaryManager.stopServerProcess(this.process);
+        this.process = null;
+        this.port = null;
+        this.notify();
+      } else {
+        await killPortProcess(await this.getPort());
+      }
+      // Wait for process to actually terminate
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    } catch (err) {
+      console.error("[leafpress] Error stopping server:", err);
+    }
+  }
+
+  /**
+   * Stop the server if we started it. Whatever else listens on the preview
+   * port is left alone.
+   */
+  async stopOwnServer(): Promise<void> {
+    if (this.process) await this.stop();
+  }
+
+  /**
+   * Note that the preview is in use, postponing idle shutdown
+   */
+  touch(): void {
+    this.lastActivity = Date.now();
+  }
+
+  /**
+   * Subscribe to the server starting or stopping. Returns a function that
+   * unsubscribes.
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async spawn(): Promise<{ port: number; error?: string }> {
+    const config = await readLeafpressConfig(this.app);
+    const result = await this.binaryManager.startServerProcess(
+      getPreviewPort(config),
+      this.settings.autoSelectPort
+    );
+
+    if (result.error || !result.process) {
+      return { port: result.port, error: result.error ?? "Server did not start" };
+    }
+
+    const child = result.process;
+    this.process = child;
+    this.port = result.port;
+
+    // Handle unexpected server exit
+    child.on("exit", () => {
+      if (this.process === child) {
+        this.process = null;
+        this.port = null;
+        this.notify();
+      }
+    });
+
+    this.notify();
+    return { port: result.port };
+  }
+
+  private async checkIdle(): Promise<void> {
+    const minutes = this.settings.previewIdleShutdownMinutes;
+    if (!this.process || minutes <= 0) return;
+    if (Date.now() - this.lastActivity < minutes * 60 * 1000) return;
+
+    await this.stop();
+    new Notice(`Preview server stopped after ${minutes} minutes of inactivity`);
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (err) {
+        console.error("[leafpress] Preview server listener error:", err);
+      }
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { CommandRun, OutputStream } from "./types";
+
+type RunLogListener = (run: CommandRun) => void;
+
+/**
+ * In-memory history of CLI runs (build, deploy, ...) with their output.
+ * Keeps the most recent runs and notifies listeners as output streams in.
+ */
+export class RunLog {
+  private runs: CommandRun[] = [];
+  private listeners: RunLogListener[] = [];
+  private nextId = 1;
+  private maxRuns: number;
+
+  constructor(maxRuns: number) {
+    this.maxRuns = Math.max(1, maxRuns);
+  }
+
+  setMaxRuns(maxRuns: number): void {
+    this.maxRuns = Math.max(1, maxRuns);
+    this.trim();
+  }
+
+  /**
+   * Runs ordered newest first
+   */
+  getRuns(): CommandRun[] {
+    return [...this.runs].reverse();
+  }
+
+  getRun(id: number): CommandRun | undefined {
+    return this.runs.find((run) => run.id === id);
+  }
+
+  startRun(command: string, args: string[]): CommandRun {
+    const run: CommandRun = {
+      id: this.nextId++,
+      command,
+      args,
+      startedAt: Date.now(),
+      lines: [],
+    };
+    this.runs.push(run);
+    this.trim();
+    this.notify(run);
+    return run;
+  }
+
+  appendLine(run: CommandRun, text: string, stream: OutputStream): void {
+    run.lines.push({ stream, text });
+    this.notify(run);
+  }
+
+  finishRun(run: CommandRun, exitCode: number, cancelled: boolean = false): void {
+    run.finishedAt = Date.now();
+    run.exitCode = exitCode;
+    run.cancelled = cancelled;
+    this.notify(run);
+  }
+
+  /**
+   * Subscribe to run updates. Returns a function that unsubscribes.
+   */
+  onChange(listener: RunLogListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const idx = this.listeners.indexOf(listener);
+      if (idx > -1) this.listeners.splice(idx, 1);
+    };
+  }
+
+  private trim(): void {
+    while (this.runs.length > this.maxRuns) {
+      this.runs.shift();
+    }
+  }
+
+  private notify(run: CommandRun): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(run);
+      } catch (err) {
+        console.error("[leafpress] Run log listener error:", err);
+      }
+    }
+  }
+}
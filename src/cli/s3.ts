@@ -0,0 +1,268 @@
+import { requestUrl } from "obsidian";
+import * as crypto from "crypto";
+import { promises as fs } from "fs";
+import * as path from "path";
+import { S3Settings } from "./types";
+import { getContentType, listSiteFiles } from "./export";
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export interface S3SyncResult {
+  uploaded: number;
+  removed: number;
+  unchanged: number;
+  cancelled: boolean;
+}
+
+interface S3Target {
+  settings: Partial<S3Settings>;
+  credentials: S3Credentials;
+  region: string;
+}
+
+/**
+ * Thrown for requests S3 refused, with the error code from its response
+ */
+export class S3Error extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+function sha256(data: string | Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+/**
+ * Percent-encode like SigV4 expects: everything but RFC 3986 unreserved
+ * characters
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+function getXmlValue(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+/**
+ * Folder within the bucket, without leading or trailing slashes
+ */
+function getPrefix(settings: Partial<S3Settings>): string {
+  return (settings.prefix ?? "").trim().replace(/^\/+|\/+$/g, "");
+}
+
+/**
+ * URL of an object, or of the bucket when key is empty. Services other than
+ * AWS are addressed by path (endpoint/bucket/key), which they all support;
+ * AWS by virtual host, unless the bucket name has dots that would break TLS.
+ */
+function getObjectUrl(target: S3Target, key: string): URL {
+  const bucket = (target.settings.bucket ?? "").trim();
+  const encodedKey = key.split("/").map(encodeRfc3986).join("/");
+  const endpoint = (target.settings.endpoint ?? "").trim().replace(/\/+$/, "");
+  const bucketPath = key ? `${bucket}/${encodedKey}` : bucket;
+  if (endpoint) return new URL(`${endpoint}/${bucketPath}`);
+  if (bucket.includes(".")) return new URL(`https://s3.${target.region}.amazonaws.com/${bucketPath}`);
+  return new URL(`https://${bucket}.s3.${target.region}.amazonaws.com/${encodedKey}`);
+}
+
+/**
+ * Authorization header for a request, signed with AWS Signature Version 4.
+ * headers are the lowercase headers to sign, including host and x-amz-date;
+ * query is the canonical query string.
+ */
+export function getAuthorization(
+  method: string,
+  pathname: string,
+  query: string,
+  headers: Record<string, string>,
+  credentials: S3Credentials,
+  region: string
+): string {
+  const amzDate = headers["x-amz-date"];
+  const date = amzDate.slice(0, 8);
+  const payloadHash = headers["x-amz-content-sha256"];
+
+  const signedHeaders = Object.keys(headers).sort();
+  const canonicalRequest = [
+    method,
+    pathname,
+    query,
+    ...signedHeaders.map((name) => `${name}:${headers[name]}`),
+    "",
+    signedHeaders.join(";"),
+    payloadHash,
+  ].join("\n");
+  const scope = `${date}/${region}/s3/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256(canonicalRequest)].join("\n");
+
+  let signingKey = hmac(`AWS4${credentials.secretAccessKey}`, date);
+  for (const part of [region, "s3", "aws4_request"]) {
+    signingKey = hmac(signingKey, part);
+  }
+  const signature = crypto.createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+  return (
+    `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${signedHeaders.join(";")}, Signature=${signature}`
+  );
+}
+
+/**
+ * Send a request signed with AWS Signature Version 4
+ */
+async function s3Request(
+  target: S3Target,
+  method: "GET" | "PUT" | "DELETE",
+  key: string,
+  options: { query?: Record<string, string>; body?: Buffer; contentType?: string } = {}
+): Promise<string> {
+  const url = getObjectUrl(target, key);
+  const query = Object.entries(options.query ?? {})
+    .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+    .sort()
+    .join("&");
+
+  const headers: Record<string, string> = {
+    host: url.host,
+    "x-amz-content-sha256": sha256(options.body ?? ""),
+    "x-amz-date": new Date().toISOString().replace(/[-:]|\.\d{3}/g, ""),
+  };
+  if (options.contentType) headers["content-type"] = options.contentType;
+  const authorization = getAuthorization(method, url.pathname, query, headers, target.credentials, target.region);
+
+  // The host header is set from the URL by the request itself
+  const sentHeaders = { ...headers };
+  delete sentHeaders.host;
+  const body = options.body;
+  const response = await requestUrl({
+    url: `${url.origin}${url.pathname}${query ? `?${query}` : ""}`,
+    method,
+    headers: {
+      ...sentHeaders,
+      Authorization: authorization,
+    },
+    body: body ? body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength) as ArrayBuffer : undefined,
+    throw: false,
+  });
+
+  if (response.status >= 300) {
+    const code = getXmlValue(response.text, "Code") ?? `HTTP ${response.status}`;
+    const message = getXmlValue(response.text, "Message") ?? "";
+    throw new S3Error(
+      response.status,
+      code,
+      `S3 refused ${method} ${key || "bucket"}: ${code}${message ? ` (${message})` : ""}`
+    );
+  }
+  return response.text;
+}
+
+/**
+ * MD5s of the objects under the deploy's folder, keyed by object key. For
+ * objects uploaded in one part, as these are, the ETag is that MD5.
+ */
+async function listObjects(target: S3Target): Promise<Map<string, string>> {
+  const prefix = getPrefix(target.settings);
+  const objects = new Map<string, string>();
+  let continuationToken: string | undefined;
+
+  do {
+    const query: Record<string, string> = { "list-type": "2" };
+    if (prefix) query.prefix = `${prefix}/`;
+    if (continuationToken) query["continuation-token"] = continuationToken;
+
+    const xml = await s3Request(target, "GET", "", { query });
+    const contentsPattern = /<Contents>([\s\S]*?)<\/Contents>/g;
+    let match: RegExpExecArray | null;
+    while ((match = contentsPattern.exec(xml)) !== null) {
+      const key = getXmlValue(match[1], "Key");
+      if (key !== undefined) {
+        objects.set(key, (getXmlValue(match[1], "ETag") ?? "").replace(/"/g, ""));
+      }
+    }
+    continuationToken =
+      getXmlValue(xml, "IsTruncated") === "true" ? getXmlValue(xml, "NextContinuationToken") : undefined;
+  } while (continuationToken);
+
+  return objects;
+}
+
+/**
+ * Make the bucket's folder match a built site (absolute siteDir): upload
+ * new and changed files, and remove objects the site no longer has.
+ * isCancelled is checked between requests.
+ */
+export async function syncToS3(
+  siteDir: string,
+  settings: Partial<S3Settings>,
+  credentials: S3Credentials,
+  onOutput: (line: string) => void,
+  isCancelled: () => boolean
+): Promise<S3SyncResult> {
+  const target: S3Target = {
+    settings,
+    credentials,
+    region: (settings.region ?? "").trim() || "us-east-1",
+  };
+  const prefix = getPrefix(settings);
+  const result: S3SyncResult = { uploaded: 0, removed: 0, unchanged: 0, cancelled: false };
+
+  const files = await listSiteFiles(siteDir);
+  onOutput(`Comparing ${files.length} file(s) with s3://${settings.bucket}/${prefix}`);
+  const remote = await listObjects(target);
+
+  const keys = new Set<string>();
+  for (const file of files) {
+    if (isCancelled()) return { ...result, cancelled: true };
+
+    const key = prefix ? `${prefix}/${file}` : file;
+    keys.add(key);
+    const body = await fs.readFile(path.join(siteDir, file));
+    if (remote.get(key) === crypto.createHash("md5").update(body).digest("hex")) {
+      result.unchanged++;
+      continue;
+    }
+
+    onOutput(`Uploading ${file}`);
+    await s3Request(target, "PUT", key, {
+      body,
+      contentType: getContentType(file),
+    });
+    result.uploaded++;
+  }
+
+  for (const key of remote.keys()) {
+    if (keys.has(key)) continue;
+    if (isCancelled()) return { ...result, cancelled: true };
+
+    onOutput(`Removing ${key}`);
+    await s3Request(target, "DELETE", key);
+    result.removed++;
+  }
+
+  return result;
+}
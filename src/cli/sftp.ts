@@ -0,0 +1,250 @@
+import { spawn } from "child_process";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { OutputStream, SftpSettings } from "./types";
+import { listSiteFiles } from "./export";
+
+// Never asks for a password or passphrase, which nobody could type in; the
+// host key is trusted on first use and checked from then on
+const SSH_OPTIONS = ["-o", "BatchMode=yes", "-o", "StrictHostKeyChecking=accept-new"];
+
+// Left in the remote folder by SFTP deploys with the files they uploaded, so
+// the next deploy removes exactly those that were dropped from the site
+const DEPLOY_MARKER = ".leafpress-deploy";
+
+interface DeployManifest {
+  deployedAt: string;
+  files: string[];
+}
+
+export interface SftpSyncResult {
+  uploaded: number;
+  removed: number;
+  cancelled: boolean;
+}
+
+/**
+ * Run rsync or sftp, passing each line of its output on. isCancelled is
+ * polled so a cancelled deploy stops the process.
+ */
+function runProcess(
+  command: string,
+  args: string[],
+  onOutput: (line: string, stream: OutputStream) => void,
+  isCancelled: () => boolean,
+  input?: string
+): Promise<{ code: number | null; stderr: string; cancelled: boolean }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["pipe", "pipe", "pipe"] });
+    let stderr = "";
+    let cancelled = false;
+    const pending: Record<OutputStream, string> = { stdout: "", stderr: "" };
+
+    const emit = (stream: OutputStream, chunk: string) => {
+      if (stream === "stderr") stderr += chunk;
+      const lines = (pending[stream] + chunk).split(/\r?\n/);
+      pending[stream] = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line) onOutput(line, stream);
+      }
+    };
+    child.stdout.on("data", (data: Buffer) => emit("stdout", data.toString()));
+    child.stderr.on("data", (data: Buffer) => emit("stderr", data.toString()));
+
+    const poll = setInterval(() => {
+      if (isCancelled() && !cancelled) {
+        cancelled = true;
+        child.kill();
+      }
+    }, 250);
+
+    child.on("error", (err: NodeJS.ErrnoException) => {
+      clearInterval(poll);
+      reject(err.code === "ENOENT" ? new Error(`${command} isn't installed or isn't on the PATH`) : err);
+    });
+    child.on("close", (code: number | null) => {
+      clearInterval(poll);
+      for (const stream of ["stdout", "stderr"] as OutputStream[]) {
+        if (pending[stream]) onOutput(pending[stream], stream);
+      }
+      resolve({ code, stderr, cancelled });
+    });
+
+    if (input !== undefined) child.stdin.end(input);
+    else child.stdin.end();
+  });
+}
+
+/**
+ * The last lines of a failed run's error output, for its error message
+ */
+function describeFailure(command: string, code: number | null, stderr: string): string {
+  const lines = stderr.trim().split(/\r?\n/).filter(Boolean);
+  return `${command} failed (exit code ${code})${lines.length > 0 ? `: ${lines.slice(-3).join(" ")}` : ""}`;
+}
+
+function getRemoteFolder(settings: Partial<SftpSettings>): string {
+  return (settings.remotePath ?? "").trim().replace(/\/+$/, "");
+}
+
+/**
+ * A path as one argument in an sftp batch file
+ */
+export function quoteSftpPath(value: string): string {
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+/**
+ * Copy the site with rsync over SSH. It uploads only what changed and
+ * removes everything else from the remote folder.
+ */
+async function syncWithRsync(
+  siteDir: string,
+  settings: Partial<SftpSettings>,
+  onOutput: (line: string, stream: OutputStream) => void,
+  isCancelled: () => boolean
+): Promise<SftpSyncResult> {
+  const ssh = ["ssh", "-p", settings.port || "22", ...SSH_OPTIONS].join(" ");
+  const result: SftpSyncResult = { uploaded: 0, removed: 0, cancelled: false };
+  const run = await runProcess(
+    "rsync",
+    [
+      "--recursive",
+      "--times",
+      "--compress",
+      "--delete",
+      "--itemize-changes",
+      "-e",
+      ssh,
+      `${siteDir}/`,
+      `${settings.user}@${settings.host}:${getRemoteFolder(settings)}/`,
+    ],
+    (line, stream) => {
+      // Itemized lines: "<f+++++++++ notes/a.html" for an upload, "*deleting notes/b.html" for a removal
+      if (/^<f/.test(line)) result.uploaded++;
+      else if (/^\*deleting\s/.test(line)) result.removed++;
+      onOutput(line, stream);
+    },
+    isCancelled
+  );
+  if (run.cancelled) return { ...result, cancelled: true };
+  if (run.code !== 0) throw new Error(describeFailure("rsync", run.code, run.stderr));
+  return result;
+}
+
+/**
+ * Copy the site with SFTP: upload every file, then remove the files the
+ * previous deploy uploaded that the site no longer has. Files it didn't
+ * upload are left alone.
+ */
+async function syncWithSftp(
+  siteDir: string,
+  settings: Partial<SftpSettings>,
+  onOutput: (line: string, stream: OutputStream) => void,
+  isCancelled: () => boolean
+): Promise<SftpSyncResult> {
+  const sftpArgs = ["-b", "-", "-P", settings.port || "22", ...SSH_OPTIONS, `${settings.user}@${settings.host}`];
+  const remote = getRemoteFolder(settings);
+  const toRemote = (file: string) => `${remote}/${file}`;
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "leafpress-sftp-"));
+
+  try {
+    // What the previous deploy uploaded; a leading "-" lets a missing marker pass
+    const markerPath = path.join(tempDir, DEPLOY_MARKER);
+    const fetch = await runProcess(
+      "sftp",
+      sftpArgs,
+      onOutput,
+      isCancelled,
+      `-get ${quoteSftpPath(toRemote(DEPLOY_MARKER))} ${quoteSftpPath(markerPath)}\n`
+    );
+    if (fetch.cancelled) return { uploaded: 0, removed: 0, cancelled: true };
+    if (fetch.code !== 0) throw new Error(describeFailure("sftp", fetch.code, fetch.stderr));
+
+    let previous: string[] | null = null;
+    try {
+      const manifest = JSON.parse(await fs.readFile(markerPath, "utf8")) as DeployManifest;
+      // Only paths inside the folder, whatever the marker says
+      previous = Array.isArray(manifest.files)
+        ? manifest.files.filter(
+            (file) => typeof file === "string" && !file.startsWith("/") && !file.split("/").includes("..")
+          )
+        : [];
+    } catch {
+      // First deploy to this folder
+    }
+
+    const files = await listSiteFiles(siteDir);
+    const current = new Set(files);
+    const stale = (previous ?? []).filter((file) => !current.has(file));
+    const getDirs = (list: string[]) => {
+      const dirs = new Set<string>();
+      for (const file of list) {
+        for (let dir = path.posix.dirname(file); dir !== "."; dir = path.posix.dirname(dir)) {
+          dirs.add(dir);
+        }
+      }
+      return dirs;
+    };
+    const dirs = getDirs(files);
+    const previousDirs = getDirs(previous ?? []);
+
+    // Folders the previous deploy didn't have, parents before children; "-"
+    // lets one that exists anyway pass
+    const batch: string[] = [];
+    if (previous === null) {
+      const segments = remote.split("/");
+      for (let i = 1; i <= segments.length; i++) {
+        const folder = segments.slice(0, i).join("/");
+        if (folder) batch.push(`-mkdir ${quoteSftpPath(folder)}`);
+      }
+    }
+    for (const dir of [...dirs].sort((a, b) => a.split("/").length - b.split("/").length)) {
+      if (!previousDirs.has(dir)) batch.push(`-mkdir ${quoteSftpPath(toRemote(dir))}`);
+    }
+    for (const file of files) {
+      batch.push(`put ${quoteSftpPath(path.join(siteDir, ...file.split("/")))} ${quoteSftpPath(toRemote(file))}`);
+    }
+
+    // Dropped pages, then the folders that leaves empty, deepest first
+    for (const file of stale) {
+      batch.push(`-rm ${quoteSftpPath(toRemote(file))}`);
+    }
+    const staleDirs = [...getDirs(stale)].filter((dir) => !dirs.has(dir));
+    for (const dir of staleDirs.sort((a, b) => b.split("/").length - a.split("/").length)) {
+      batch.push(`-rmdir ${quoteSftpPath(toRemote(dir))}`);
+    }
+
+    const manifest: DeployManifest = { deployedAt: new Date().toISOString(), files };
+    await fs.writeFile(markerPath, JSON.stringify(manifest, null, 2));
+    batch.push(`put ${quoteSftpPath(markerPath)} ${quoteSftpPath(toRemote(DEPLOY_MARKER))}`);
+
+    if (isCancelled()) return { uploaded: 0, removed: 0, cancelled: true };
+    onOutput(`Uploading ${files.length} file(s) to ${settings.host}:${remote}`, "stdout");
+    const upload = await runProcess("sftp", sftpArgs, onOutput, isCancelled, `${batch.join("\n")}\n`);
+    if (upload.cancelled) return { uploaded: 0, removed: 0, cancelled: true };
+    if (upload.code !== 0) throw new Error(describeFailure("sftp", upload.code, upload.stderr));
+    return { uploaded: files.length, removed: stale.length, cancelled: false };
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Copy a built site (absolute siteDir) to the server's folder with the
+ * configured method, signing in with the system's SSH keys or agent
+ */
+export async function syncOverSsh(
+  siteDir: string,
+  settings: Partial<SftpSettings>,
+  onOutput: (line: string, stream: OutputStream) => void,
+  isCancelled: () => boolean
+): Promise<SftpSyncResult> {
+  if (!settings.host || !settings.user || !getRemoteFolder(settings)) {
+    throw new Error("Set the server, user and remote folder first");
+  }
+  return settings.method === "sftp"
+    ? syncWithSftp(siteDir, settings, onOutput, isCancelled)
+    : syncWithRsync(siteDir, settings, onOutput, isCancelled);
+}
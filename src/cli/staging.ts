@@ -0,0 +1,276 @@
+import { App } from "obsidian";
+import { promises as fs, constants as fsConstants } from "fs";
+import * as path from "path";
+import { DEPLOY_STATE_FILE, DeployState, PendingFile, sha1Hash } from "../utils/deploy-state";
+import { readSnapshot } from "../utils/snapshots";
+import { readLeafpressConfig } from "../utils/config";
+import { PublishRules, getSkipReason } from "../utils/publish";
+import { LeafpressConfig, DeployTarget } from "./types";
+import { PROFILE_OUTPUT_ROOT } from "../site-profiles";
+import { getDataDir } from "../utils/plugin-dir";
+
+// Vault-relative paths never copied into the stage
+const STAGE_EXCLUDES = new Set([".git", ".trash", "node_modules", "_site", PROFILE_OUTPUT_ROOT]);
+
+// Vault-root files a stage of a saved site needs besides the site itself
+const STAGE_COPIES = new Set(["leafpress.json", DEPLOY_STATE_FILE]);
+
+/**
+ * A vault-relative folder as the stage's excludes hold it: forward slashes,
+ * no leading "./" or trailing slash
+ */
+function toExcludePath(folder: string): string {
+  return path.posix.normalize(folder.replace(/\\/g, "/")).replace(/^(\.\/)+|\/+$/g, "");
+}
+
+function getStagePath(app: App, vaultPath: string): string {
+  return path.join(vaultPath, getDataDir(app), "stage");
+}
+
+/**
+ * Copy a file into the stage. Never a hardlink: the CLI builds and deploys
+ * in the stage and may rewrite sources in place, which must not reach the
+ * vault. Where the file system supports it (APFS, Btrfs, XFS), the copy is
+ * a copy-on-write clone, so large attachments take no extra space.
+ */
+async function copyIntoStage(source: string, target: string): Promise<void> {
+  await fs.copyFile(source, target, fsConstants.COPYFILE_FICLONE);
+}
+
+async function mirror(
+  sourceDir: string,
+  targetDir: string,
+  relativeDir: string,
+  excludes: Set<string>
+): Promise<void> {
+  await fs.mkdir(targetDir, { recursive: true });
+  const entries = await fs.readdir(sourceDir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    // Matched on the whole path, so nested folders such as site/_site are left out too
+    if (excludes.has(relativePath)) continue;
+
+    const source = path.join(sourceDir, entry.name);
+    const target = path.join(targetDir, entry.name);
+
+    if (entry.isDirectory()) {
+      await mirror(source, target, relativePath, excludes);
+    } else if (entry.isFile()) {
+      await copyIntoStage(source, target);
+    }
+  }
+}
+
+/**
+ * Build a copy of the vault in which the held-back changes are undone:
+ * added files are left out, and modified or deleted files are restored to
+ * their deployed content from the snapshots. Building and deploying from the
+ * stage ships only the remaining changes, and the deploy state the CLI
+ * writes there records exactly what went out.
+ *
+ * Returns the absolute path of the stage.
+ */
+export async function createDeployStage(
+  app: App,
+  vaultPath: string,
+  heldBack: PendingFile[]
+): Promise<string> {
+  // Held-back edits can only be undone if we know what was deployed
+  const restored = new Map<string, string>();
+  const missing: string[] = [];
+  for (const pending of heldBack) {
+    if (pending.status === "added" || !pending.deployedHash) continue;
+    const snapshot = await readSnapshot(app, pending.deployedHash);
+    if (snapshot === null) {
+      missing.push(pending.file);
+    } else {
+      restored.set(pending.file, snapshot);
+    }
+  }
+  if (missing.length > 0) {
+    throw new Error(
+      `The deployed version of these files isn't available: ${missing.join(", ")}`
+    );
+  }
+
+  const config = await readLeafpressConfig(app);
+  const excludes = new Set(STAGE_EXCLUDES);
+  excludes.add(toExcludePath(app.vault.configDir));
+  // The plugin's data (snapshots, history, the stage itself), wherever it's installed
+  excludes.add(toExcludePath(getDataDir(app)));
+  if (config?.outputDir) excludes.add(toExcludePath(config.outputDir));
+
+  const stagePath = getStagePath(app, vaultPath);
+  await fs.rm(stagePath, { recursive: true, force: true });
+  await mirror(vaultPath, stagePath, "", excludes);
+
+  for (const pending of heldBack) {
+    const target = path.join(stagePath, pending.file);
+    // Added files are left out; the others get their deployed content back
+    await fs.rm(target, { force: true });
+
+    const content = restored.get(pending.file);
+    if (content !== undefined) {
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, content);
+    }
+  }
+
+  return stagePath;
+}
+
+/**
+ * Build a stage that holds just the deploy configuration and a previously
+ * built site, ready for `deploy --skip-build`.
+ *
+ * Returns the absolute path of the stage.
+ */
+export async function createRedeployStage(
+  app: App,
+  vaultPath: string,
+  siteDir: string,
+  outputDir: string
+): Promise<string> {
+  const stagePath = getStagePath(app, vaultPath);
+  await fs.rm(stagePath, { recursive: true, force: true });
+  await fs.mkdir(stagePath, { recursive: true });
+
+  for (const name of STAGE_COPIES) {
+    try {
+      await fs.copyFile(path.join(vaultPath, name), path.join(stagePath, name));
+    } catch {
+      // The deploy state doesn't exist before the first deploy
+    }
+  }
+  try {
+    await copyDirectory(path.join(vaultPath, ".leafpress"), path.join(stagePath, ".leafpress"));
+  } catch {
+    // No CLI data folder
+  }
+  await copyDirectory(siteDir, path.join(stagePath, outputDir));
+
+  return stagePath;
+}
+
+/**
+ * Recursively copy a folder
+ */
+export async function copyDirectory(source: string, target: string): Promise<void> {
+  await fs.mkdir(target, { recursive: true });
+  const entries = await fs.readdir(source, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const from = path.join(source, entry.name);
+    const to = path.join(target, entry.name);
+    if (entry.isDirectory()) {
+      await copyDirectory(from, to);
+    } else if (entry.isFile()) {
+      await fs.copyFile(from, to);
+    }
+  }
+}
+
+/**
+ * Bring the deploy state written by a staged deploy back into the vault, at
+ * statePath (absolute). sourceFiles replaces the recorded sources when the
+ * stage didn't contain the sources that were actually shipped (a redeployed
+ * site). Otherwise configHash, if given, replaces the recorded hash of
+ * leafpress.json, for stages whose config was rewritten for a deploy target.
+ */
+export async function adoptStagedDeployState(
+  stagePath: string,
+  statePath: string,
+  options: { sourceFiles?: Record<string, string>; configHash?: string } = {}
+): Promise<void> {
+  const stagedState = path.join(stagePath, DEPLOY_STATE_FILE);
+  await fs.mkdir(path.dirname(statePath), { recursive: true });
+
+  if (!options.sourceFiles && !options.configHash) {
+    await fs.copyFile(stagedState, statePath);
+    return;
+  }
+
+  const state = JSON.parse(await fs.readFile(stagedState, "utf8")) as DeployState;
+  if (state.lastDeploy) {
+    if (options.sourceFiles) {
+      state.lastDeploy.sourceFiles = options.sourceFiles;
+    } else if (options.configHash && state.lastDeploy.sourceFiles?.["/leafpress.json"]) {
+      state.lastDeploy.sourceFiles["/leafpress.json"] = options.configHash;
+    }
+  }
+  await fs.writeFile(statePath, JSON.stringify(state, null, 2));
+}
+
+/**
+ * Hashes of the sources in a stage, keyed like the deploy state. The
+ * counterpart of getSourceFilesWithHashes for deploys the plugin does itself.
+ */
+export async function getStagedSourceFiles(
+  stagePath: string,
+  rules: PublishRules
+): Promise<Record<string, string>> {
+  const files: Record<string, string> = {};
+
+  const scan = async (relativeDir: string): Promise<void> => {
+    const entries = await fs.readdir(path.join(stagePath, relativeDir), { withFileTypes: true });
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        // Hidden top-level folders are never published
+        if (!relativeDir && entry.name.startsWith(".")) continue;
+        await scan(relativePath);
+      } else if (entry.isFile() && entry.name.endsWith(".md") && !getSkipReason(relativePath, rules)) {
+        files[`/${relativePath}`] = sha1Hash(await fs.readFile(path.join(stagePath, relativePath), "utf8"));
+      }
+    }
+  };
+  await scan("");
+
+  try {
+    files["/leafpress.json"] = sha1Hash(await fs.readFile(path.join(stagePath, "leafpress.json"), "utf8"));
+  } catch {
+    // Config might not exist
+  }
+  return files;
+}
+
+/**
+ * Point a stage at a named deploy target: its provider settings and base
+ * URL go into the stage's leafpress.json, and its own deploy state (absolute
+ * statePath) replaces the vault's. Returns the hash of the stage's config
+ * before it was rewritten, which is what the deploy state should record.
+ */
+export async function applyDeployTarget(
+  stagePath: string,
+  target: DeployTarget,
+  statePath: string
+): Promise<string> {
+  const configPath = path.join(stagePath, "leafpress.json");
+  const configText = await fs.readFile(configPath, "utf8");
+  const config = JSON.parse(configText) as LeafpressConfig;
+
+  config.deploy = { provider: target.provider, settings: target.settings ?? {} };
+  if (target.baseURL) {
+    config.baseURL = target.baseURL;
+  }
+  await fs.writeFile(configPath, JSON.stringify(config, null, 2));
+
+  const stagedState = path.join(stagePath, DEPLOY_STATE_FILE);
+  await fs.rm(stagedState, { force: true });
+  try {
+    await fs.copyFile(statePath, stagedState);
+  } catch {
+    // First deploy to this target
+  }
+
+  return sha1Hash(configText);
+}
+
+export async function removeDeployStage(stagePath: string): Promise<void> {
+  try {
+    await fs.rm(stagePath, { recursive: true, force: true });
+  } catch (err) {
+    console.error("[leafpress] Error removing deploy stage:", err);
+  }
+}
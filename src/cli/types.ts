@@ -3,6 +3,58 @@ export interface CLIResult {
   stdout: string;
   stderr: string;
   code: number;
+  cancelled?: boolean;
+  timedOut?: boolean;
+}
+
+export type OutputStream = "stdout" | "stderr";
+
+export interface ExecOptions {
+  // Called for every complete line of output while the command runs
+  onOutput?: (line: string, stream: OutputStream) => void;
+  // Kill the command after this long (defaults to 5 minutes)
+  timeoutMs?: number;
+  // Working directory (defaults to the vault root)
+  cwd?: string;
+  // Added to the plugin's environment for this command only
+  env?: Record<string, string>;
+  // Called when output stops at a question waiting for input, such as
+  // "Token: ". Resolve with the answer to send, or null to stop the command.
+  onPrompt?: (prompt: string) => Promise<string | null>;
+  // Make this the command cancelActiveCommand stops. Set for the builds and
+  // deploys users run, not for quick checks such as --version.
+  cancellable?: boolean;
+}
+
+export interface RunLogLine {
+  stream: OutputStream;
+  text: string;
+}
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export type DiagnosticKind = "broken-link" | "frontmatter" | "missing-image" | "other";
+
+// An error or warning reported by the CLI, tied to a note where possible
+export interface BuildDiagnostic {
+  severity: DiagnosticSeverity;
+  kind: DiagnosticKind;
+  message: string;
+  file?: string;
+  line?: number;
+}
+
+// A single CLI invocation recorded in the build log
+export interface CommandRun {
+  id: number;
+  command: string;
+  args: string[];
+  startedAt: number;
+  finishedAt?: number;
+  exitCode?: number;
+  cancelled?: boolean;
+  lines: RunLogLine[];
+  diagnostics?: BuildDiagnostic[];
 }
 
 // GitHub Release API response types
@@ -19,14 +71,21 @@ export interface GitHubRelease {
 }
 
 // Deploy provider type
-export type DeployProvider = "github-pages" | "vercel" | "netlify";
+export type DeployProvider =
+  | "github-pages"
+  | "vercel"
+  | "netlify"
+  | "cloudflare-pages"
+  | "s3"
+  | "sftp"
+  | "local";
 
 // Feature toggle keys that can be updated
 export type FeatureToggleKey = "graph" | "toc" | "search" | "wikilinks" | "backlinks";
 
 export interface DeployResult {
   url: string;
-  provider: "github-pages" | "vercel";
+  provider: DeployProvider;
   timestamp: number;
 }
 
@@ -43,9 +102,91 @@ export interface LeafpressThemeConfig {
   navActiveStyle?: "base" | "box" | "underlined";
 }
 
-export interface DeploySettings {
-  provider: DeployProvider;
-  settings?: Record<string, unknown>;
+// The CLI keeps its own deploy configuration for GitHub Pages, Vercel and
+// Netlify. These are the plugin's: they answer the CLI's setup questions and
+// give the site's address.
+export interface GitHubPagesSettings {
+  // Repository as owner/name
+  repo: string;
+  customDomain?: string;
+}
+
+export interface VercelSettings {
+  project: string;
+  customDomain?: string;
+}
+
+export interface NetlifySettings {
+  // Site name or API ID
+  siteId: string;
+  customDomain?: string;
+}
+
+export interface CloudflarePagesSettings {
+  accountId: string;
+  project: string;
+  // Branch the deploy is published as; the production branch when unset
+  branch?: string;
+  customDomain?: string;
+}
+
+// Any bucket that speaks the S3 API: AWS, MinIO, R2, B2, ...
+export interface S3Settings {
+  bucket: string;
+  // API address for services other than AWS, e.g. http://localhost:9000
+  endpoint?: string;
+  region?: string;
+  // Folder within the bucket
+  prefix?: string;
+  accessKeyId: string;
+  // Address the bucket's files are served from
+  publicUrl?: string;
+}
+
+export type SftpMethod = "sftp" | "rsync";
+
+export interface SftpSettings {
+  method: SftpMethod;
+  host: string;
+  port?: string;
+  user: string;
+  // Folder on the server the site is copied into
+  remotePath: string;
+  // Address the server serves that folder at
+  publicUrl: string;
+}
+
+export type ExportFormat = "folder" | "zip";
+
+export interface LocalExportSettings {
+  format: ExportFormat;
+  // Absolute path of the folder, or of the .zip file
+  path: string;
+  // Prefix for root-relative links, for a site served from a subfolder
+  basePath?: string;
+}
+
+// What deploy.settings holds for each provider
+export interface ProviderSettings {
+  "github-pages": GitHubPagesSettings;
+  vercel: VercelSettings;
+  netlify: NetlifySettings;
+  "cloudflare-pages": CloudflarePagesSettings;
+  s3: S3Settings;
+  sftp: SftpSettings;
+  local: LocalExportSettings;
+}
+
+export interface DeploySettings<P extends DeployProvider = DeployProvider> {
+  provider: P;
+  settings?: Partial<ProviderSettings[P]>;
+}
+
+// A named deploy destination besides the default `deploy` (production)
+export interface DeployTarget extends DeploySettings {
+  name: string;
+  // Site address used when building for this target (defaults to baseURL)
+  baseURL?: string;
 }
 
 export interface LeafpressConfig {
@@ -66,4 +207,5 @@ export interface LeafpressConfig {
   headExtra?: string;
   ignore?: string[];
   deploy?: DeploySettings;
+  targets?: DeployTarget[];
 }
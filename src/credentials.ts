@@ -0,0 +1,391 @@
+import { Notice, requestUrl } from "obsidian";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DeployProvider } from "./cli/types";
+import { LeafpressPluginSettings, StoredCredential } from "./settings";
+
+// The encryption key lives outside the vault, so a synced or shared vault
+// carries only ciphertext
+const KEYRING_PATH = path.join(os.homedir(), ".leafpress-obsidian", "keyring");
+
+const CIPHER = "aes-256-gcm";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+// The secret each provider deploys with, and the environment variable the
+// CLI reads it from. Cloudflare Pages and S3 have none: the plugin deploys to
+// them with the token itself. SFTP signs in with the system's SSH keys instead.
+export const PROVIDER_TOKENS: Partial<Record<DeployProvider, { name: string; envVar?: string }>> = {
+  "github-pages": { name: "GitHub token", envVar: "GITHUB_TOKEN" },
+  vercel: { name: "Vercel token", envVar: "VERCEL_TOKEN" },
+  netlify: { name: "Netlify token", envVar: "NETLIFY_AUTH_TOKEN" },
+  "cloudflare-pages": { name: "Cloudflare API token" },
+  s3: { name: "Secret access key" },
+};
+
+// Tokens about to expire are flagged this long in advance
+const EXPIRY_WARNING_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type CredentialState =
+  | "missing"
+  | "unreadable"
+  | "untested"
+  | "valid"
+  | "expiring"
+  | "expired"
+  | "invalid";
+
+export interface CredentialStatus {
+  state: CredentialState;
+  account?: string;
+  expiresAt?: string;
+  checkedAt?: string;
+}
+
+// How a token is checked: an authenticated request for the current user
+interface TokenCheck {
+  url: string;
+  getAccount: (body: Record<string, unknown>) => string | undefined;
+  // For APIs that answer 200 for tokens that can't be used
+  isActive?: (body: Record<string, unknown>) => boolean;
+  getExpiry?: (body: Record<string, unknown>) => string | undefined;
+}
+
+// S3 requests need signing per service, so those keys are checked by deploying
+const TOKEN_CHECKS: Partial<Record<DeployProvider, TokenCheck>> = {
+  "github-pages": {
+    url: "https://api.github.com/user",
+    getAccount: (body) => asString(body.login),
+  },
+  vercel: {
+    url: "https://api.vercel.com/v2/user",
+    getAccount: (body) => {
+      const user = body.user as Record<string, unknown> | undefined;
+      return asString(user?.username) ?? asString(user?.email);
+    },
+  },
+  netlify: {
+    url: "https://api.netlify.com/api/v1/user",
+    getAccount: (body) => asString(body.email) ?? asString(body.full_name),
+  },
+  "cloudflare-pages": {
+    url: "https://api.cloudflare.com/client/v4/user/tokens/verify",
+    getAccount: () => undefined,
+    isActive: (body) => (body.result as Record<string, unknown> | undefined)?.status === "active",
+    getExpiry: (body) => asString((body.result as Record<string, unknown> | undefined)?.expires_on),
+  },
+};
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+// Loaded once per session
+let keyPromise: Promise<Buffer> | null = null;
+
+/**
+ * Read this machine's encryption key, creating it on first use
+ */
+function getKey(): Promise<Buffer> {
+  if (keyPromise === null) {
+    keyPromise = loadKey().catch((err) => {
+      keyPromise = null;
+      throw err;
+    });
+  }
+  return keyPromise;
+}
+
+/**
+ * Read the existing keyring. An unusable one is an error, never replaced:
+ * every vault on this machine has tokens encrypted with it.
+ */
+async function readKey(): Promise<Buffer> {
+  let content = "";
+  // Another window may have just created the file and not written it yet
+  for (let attempt = 0; attempt < 5 && !content; attempt++) {
+    if (attempt > 0) await new Promise((resolve) => setTimeout(resolve, 100));
+    content = (await fs.promises.readFile(KEYRING_PATH, "utf8")).trim();
+  }
+  const key = Buffer.from(content, "hex");
+  if (key.length !== 32) {
+    throw new Error(
+      `${KEYRING_PATH} isn't a valid keyring. Move it aside to create a new one; stored tokens will then have to be entered again.`
+    );
+  }
+  return key;
+}
+
+async function loadKey(): Promise<Buffer> {
+  try {
+    return await readKey();
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+  }
+
+  // Created exclusively, so two windows starting at once can't both write one
+  const key = crypto.randomBytes(32);
+  await fs.promises.mkdir(path.dirname(KEYRING_PATH), { recursive: true, mode: 0o700 });
+  try {
+    await fs.promises.writeFile(KEYRING_PATH, key.toString("hex"), { mode: 0o600, flag: "wx" });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "EEXIST") return readKey();
+    throw err;
+  }
+  return key;
+}
+
+async function encrypt(token: string): Promise<string> {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(CIPHER, await getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(token, "utf8"), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+/**
+ * Decrypt a stored token. Returns null when it can't be read, e.g. after
+ * the vault was synced to a machine with a different keyring. Rejects when
+ * the keyring itself can't be loaded.
+ */
+async function decrypt(data: string): Promise<string | null> {
+  const key = await getKey();
+  try {
+    const raw = Buffer.from(data, "base64");
+    const decipher = crypto.createDecipheriv(CIPHER, key, raw.subarray(0, IV_BYTES));
+    decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    return Buffer.concat([
+      decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GitHub reports a token's expiry as "2026-11-01 00:00:00 UTC"
+ */
+function parseExpiry(header: string | undefined): string | undefined {
+  if (!header) return undefined;
+  const time = Date.parse(header.trim().replace(" UTC", "Z").replace(" ", "T"));
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+/**
+ * One-line description of a token's state, for settings and the panel
+ */
+export function describeCredential(status: CredentialStatus): string {
+  const account = status.account ? ` for ${status.account}` : "";
+  const expiry = status.expiresAt ? new Date(status.expiresAt).toLocaleDateString() : "";
+  switch (status.state) {
+    case "missing":
+      return "No token stored";
+    case "unreadable":
+      return "Stored token can't be decrypted on this device. Enter it again.";
+    case "untested":
+      return "Stored, not tested yet";
+    case "valid":
+      return `Valid${account}${expiry ? `, expires ${expiry}` : ""}`;
+    case "expiring":
+      return `Expires ${expiry}${account}. Replace it soon.`;
+    case "expired":
+      return `Expired ${expiry}. Enter a new token.`;
+    case "invalid":
+      return "Rejected by the provider. Enter a new token.";
+  }
+}
+
+/**
+ * Whether deploys with this token are expected to fail
+ */
+export function isCredentialProblem(status: CredentialStatus): boolean {
+  return status.state === "unreadable" || status.state === "expired" || status.state === "invalid";
+}
+
+/**
+ * Deploy tokens managed by the plugin. They're kept encrypted in the plugin's
+ * settings, never in leafpress.json, and handed to the CLI as environment
+ * variables only for deploys to their provider.
+ */
+export class Credentials {
+  private settings: LeafpressPluginSettings;
+  private saveSettings: () => Promise<void>;
+  private unreadable = new Set<DeployProvider>();
+  private listeners = new Set<() => void>();
+
+  constructor(settings: LeafpressPluginSettings, saveSettings: () => Promise<void>) {
+    this.settings = settings;
+    this.saveSettings = saveSettings;
+  }
+
+  canTest(provider: DeployProvider): boolean {
+    return TOKEN_CHECKS[provider] !== undefined;
+  }
+
+  has(provider: DeployProvider): boolean {
+    return this.settings.credentials[provider] !== undefined;
+  }
+
+  getStatus(provider: DeployProvider): CredentialStatus {
+    const stored = this.settings.credentials[provider];
+    if (!stored) return { state: "missing" };
+
+    const { account, expiresAt, checkedAt } = stored;
+    const details = { account, expiresAt, checkedAt };
+    if (this.unreadable.has(provider)) return { state: "unreadable", ...details };
+    if (stored.status === "invalid") return { state: "invalid", ...details };
+
+    const expiry = expiresAt ? Date.parse(expiresAt) : NaN;
+    if (!isNaN(expiry) && expiry <= Date.now()) return { state: "expired", ...details };
+    if (!isNaN(expiry) && expiry - Date.now() < EXPIRY_WARNING_MS) return { state: "expiring", ...details };
+
+    return { state: stored.status === "valid" ? "valid" : "untested", ...details };
+  }
+
+  /**
+   * Subscribe to tokens being saved, removed or checked. Returns a function
+   * that unsubscribes.
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  async getToken(provider: DeployProvider): Promise<string | null> {
+    const stored = this.settings.credentials[provider];
+    if (!stored) return null;
+
+    let token: string | null;
+    try {
+      token = await decrypt(stored.data);
+    } catch (err) {
+      // The token may be fine; the keyring isn't
+      console.error("[leafpress] Error loading keyring:", err);
+      new Notice(`Can't read deploy tokens: ${err instanceof Error ? err.message : String(err)}`);
+      return null;
+    }
+    if (token === null && !this.unreadable.has(provider)) {
+      this.unreadable.add(provider);
+      this.notify();
+    }
+    return token;
+  }
+
+  async set(provider: DeployProvider, token: string): Promise<void> {
+    const credential: StoredCredential = {
+      data: await encrypt(token.trim()),
+      savedAt: new Date().toISOString(),
+    };
+    this.settings.credentials = { ...this.settings.credentials, [provider]: credential };
+    this.unreadable.delete(provider);
+    await this.saveSettings();
+    this.notify();
+  }
+
+  async remove(provider: DeployProvider): Promise<void> {
+    const credentials = { ...this.settings.credentials };
+    delete credentials[provider];
+    this.settings.credentials = credentials;
+    this.unreadable.delete(provider);
+    await this.saveSettings();
+    this.notify();
+  }
+
+  /**
+   * Check a stored token with the provider, remembering the outcome.
+   * Resolves with a message describing the result.
+   */
+  async test(provider: DeployProvider): Promise<{ ok: boolean; message: string }> {
+    const token = await this.getToken(provider);
+    if (token === null) {
+      return {
+        ok: false,
+        message: this.has(provider)
+          ? "The stored token can't be decrypted on this device. Enter it again."
+          : "No token stored",
+      };
+    }
+
+    const check = TOKEN_CHECKS[provider];
+    if (!check) {
+      return { ok: false, message: "This key can't be checked from the plugin. The next deploy will show whether it works." };
+    }
+
+    let response;
+    try {
+      response = await requestUrl({
+        url: check.url,
+        headers: { Authorization: `Bearer ${token}`, Accept: "application/json" },
+        throw: false,
+      });
+    } catch (err) {
+      return { ok: false, message: `Couldn't reach the provider: ${String(err)}` };
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      await this.update(provider, { status: "invalid", account: undefined });
+      return { ok: false, message: "The provider rejected the token" };
+    }
+    if (response.status >= 400) {
+      return { ok: false, message: `The provider returned an error (HTTP ${response.status})` };
+    }
+
+    let body: Record<string, unknown> = {};
+    try {
+      body = response.json as Record<string, unknown>;
+    } catch {
+      // Not JSON; the token still worked
+    }
+    if (check.isActive && !check.isActive(body)) {
+      await this.update(provider, { status: "invalid", account: undefined });
+      return { ok: false, message: "The token is disabled or not active yet" };
+    }
+    const account = check.getAccount(body);
+    const expiresAt =
+      check.getExpiry?.(body) ?? parseExpiry(response.headers["github-authentication-token-expiration"]);
+    await this.update(provider, { status: "valid", account, expiresAt });
+    return { ok: true, message: account ? `Signed in as ${account}` : "Token accepted" };
+  }
+
+  /**
+   * Flag a stored token as rejected after a deploy failed to authenticate
+   */
+  async markInvalid(provider: DeployProvider): Promise<void> {
+    if (!this.has(provider)) return;
+    await this.update(provider, { status: "invalid" });
+  }
+
+  /**
+   * Environment variable carrying the token of the provider being deployed
+   * to, for its deploy run. Other providers' tokens are left out.
+   */
+  async getDeployEnv(provider: DeployProvider): Promise<Record<string, string>> {
+    const envVar = PROVIDER_TOKENS[provider]?.envVar;
+    if (!envVar) return {};
+    const token = await this.getToken(provider);
+    return token ? { [envVar]: token } : {};
+  }
+
+  private async update(provider: DeployProvider, changes: Partial<StoredCredential>): Promise<void> {
+    const stored = this.settings.credentials[provider];
+    if (!stored) return;
+    this.settings.credentials = {
+      ...this.settings.credentials,
+      [provider]: { ...stored, ...changes, checkedAt: new Date().toISOString() },
+    };
+    await this.saveSettings();
+    this.notify();
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (err) {
+        console.error("[leafpress] Credentials listener error:", err);
+      }
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { App, Modal, Setting } from "obsidian";
+import { PendingFile } from "./utils/deploy-state";
+
+export interface DeploySummary {
+  // Named deploy target, when not deploying to production
+  target?: string;
+  provider: string;
+  // Where the site will be published, if known
+  url: string | null;
+  changes: PendingFile[];
+  warnings: string[];
+}
+
+const STATUS_ICONS: Record<PendingFile["status"], string> = {
+  added: "+",
+  modified: "~",
+  deleted: "−",
+};
+
+/**
+ * Asks for approval before a deploy, showing what is about to go out
+ */
+export class DeployConfirmModal extends Modal {
+  private summary: DeploySummary;
+  private resolve: ((confirmed: boolean) => void) | null = null;
+
+  constructor(app: App, summary: DeploySummary) {
+    super(app);
+    this.summary = summary;
+  }
+
+  /**
+   * Open the dialog. Resolves to true only if the deploy was approved.
+   */
+  prompt(): Promise<boolean> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    const { target, provider, url, changes, warnings } = this.summary;
+
+    new Setting(contentEl).setName(target ? `Deploy site to ${target}?` : "Deploy site?").setHeading();
+
+    const infoEl = contentEl.createEl("div", { cls: "deployment-result-section" });
+    const providerEl = infoEl.createEl("p");
+    providerEl.createEl("strong", { text: "Provider: " });
+    providerEl.append(provider);
+    const urlEl = infoEl.createEl("p");
+    urlEl.createEl("strong", { text: "Target: " });
+    urlEl.append(url ?? "Shown after the first deploy");
+
+    const count = (status: PendingFile["status"]) =>
+      changes.filter((change) => change.status === status).length;
+    const countsEl = infoEl.createEl("p");
+    countsEl.createEl("strong", { text: "Changes: " });
+    countsEl.append(
+      changes.length === 0
+        ? "None since the last deploy"
+        : `+${count("added")} added · ~${count("modified")} modified · −${count("deleted")} deleted`
+    );
+
+    if (changes.length > 0) {
+      const details = contentEl.createEl("details", { cls: "leafpress-confirm-files" });
+      details.createEl("summary", { text: `Show ${changes.length} file(s)` });
+      const list = details.createEl("ul", { cls: "leafpress-file-list" });
+      for (const change of changes) {
+        list.createEl("li", {
+          text: `${STATUS_ICONS[change.status]} ${change.file}`,
+          cls: "leafpress-file-item",
+        });
+      }
+    }
+
+    if (warnings.length > 0) {
+      const warningEl = contentEl.createEl("div", { cls: "leafpress-warning-box" });
+      warningEl.createEl("strong", { text: "Check before deploying" });
+      const list = warningEl.createEl("ul");
+      for (const warning of warnings) {
+        list.createEl("li", { text: warning });
+      }
+    }
+
+    new Setting(contentEl)
+      .addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.finish(false)))
+      .addButton((btn) => {
+        btn.setButtonText("Deploy").onClick(() => this.finish(true));
+        if (warnings.length > 0) {
+          btn.setWarning();
+        } else {
+          btn.setCta();
+        }
+      });
+  }
+
+  onClose(): void {
+    // Closing the dialog any other way counts as cancelling
+    this.settle(false);
+    this.contentEl.empty();
+  }
+
+  private finish(confirmed: boolean): void {
+    this.settle(confirmed);
+    this.close();
+  }
+
+  private settle(confirmed: boolean): void {
+    if (this.resolve) {
+      this.resolve(confirmed);
+      this.resolve = null;
+    }
+  }
+}
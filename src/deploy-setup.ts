@@ -0,0 +1,372 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import { CommandHandlers } from "./cli/handlers";
+import { Credentials, describeCredential, PROVIDER_TOKENS } from "./credentials";
+import { DeployProvider } from "./cli/types";
+import { readLeafpressConfig, writeLeafpressConfig, PROVIDER_LABELS } from "./utils/config";
+import { openInBrowser } from "./utils/platform";
+import {
+  getDeploySettingFields,
+  validateDeployField,
+  validateDeploySettingValues,
+  getDeploySettingValues,
+  toDeploySettings,
+  PLUGIN_DEPLOYED_PROVIDERS,
+} from "./utils/deploy-settings";
+
+// Where each provider issues the access tokens the CLI deploys with
+const TOKEN_URLS: Partial<Record<DeployProvider, string>> = {
+  "github-pages": "https://github.com/settings/tokens",
+  vercel: "https://vercel.com/account/tokens",
+  netlify: "https://app.netlify.com/user/applications#personal-access-tokens",
+  "cloudflare-pages": "https://dash.cloudflare.com/profile/api-tokens",
+};
+
+/**
+ * Add a text setting for each of a provider's deploy settings. Edits `values`
+ * in place and shows a setting's problem under it while it's typed.
+ */
+export function renderDeploySettingFields(
+  containerEl: HTMLElement,
+  provider: DeployProvider,
+  values: Record<string, string>
+): void {
+  if (!PLUGIN_DEPLOYED_PROVIDERS.has(provider)) {
+    containerEl.createEl("p", {
+      cls: "setting-item-description",
+      text: "The CLI keeps its own deploy configuration for this provider. These values answer its setup questions and give the site's address.",
+    });
+  }
+
+  for (const field of getDeploySettingFields(provider)) {
+    if (values[field.key] === undefined) {
+      values[field.key] = field.defaultValue ?? "";
+    }
+
+    const setting = new Setting(containerEl).setName(field.name).setDesc(field.desc);
+    const errorEl = setting.descEl.createEl("div", { cls: "leafpress-field-error" });
+    const showError = () => errorEl.setText(validateDeployField(field, values[field.key]) ?? "");
+    // An empty form isn't an error until something is typed
+    if (values[field.key].trim()) showError();
+
+    const { options } = field;
+    if (options) {
+      if (!(values[field.key] in options)) values[field.key] = Object.keys(options)[0];
+      setting.addDropdown((dd) =>
+        dd
+          .addOptions(options)
+          .setValue(values[field.key])
+          .onChange((value) => {
+            values[field.key] = value;
+          })
+      );
+      continue;
+    }
+
+    setting.addText((text) =>
+      text
+        .setPlaceholder(field.placeholder ?? "")
+        .setValue(values[field.key])
+        .onChange((value) => {
+          values[field.key] = value;
+          showError();
+        })
+    );
+  }
+}
+
+const TOKEN_PROMPT = /token|secret|api key|password/i;
+const CONFIRM_PROMPT = /\(y\/n\)|\[y\/n\]|yes\/no/i;
+
+// Confirmations the wizard asked for by running the setup: replacing the
+// saved deploy configuration, and creating the project or site named in the
+// form. Any other yes/no question goes to the user.
+const WIZARD_CONFIRMATIONS = [
+  /\breconfigure\b|replace (the )?(existing |saved )?(deploy(ment)? )?config/i,
+  /\bcreate (a |the )?(new )?(project|site|repo(sitory)?)\b/i,
+];
+
+// Output lines kept on screen while deploying
+const MAX_OUTPUT_LINES = 200;
+
+/**
+ * Sets up deployment without a terminal: asks for the provider details and
+ * a token, saves them (the token to the plugin's encrypted store, the rest to
+ * leafpress.json) and runs the first deploy, answering
+ * the CLI's questions from what was entered. Anything the wizard can't answer
+ * is shown as a question in the dialog.
+ */
+export class DeploySetupModal extends Modal {
+  private commandHandlers: CommandHandlers;
+  private credentials: Credentials;
+  private onComplete: (() => void) | null;
+  private provider: DeployProvider = "github-pages";
+  private values: Record<string, string> = {};
+  private token = "";
+  // Settings already given to the CLI, so a repeated question goes to the user
+  private answered = new Set<string>();
+  private pendingAnswer: ((answer: string | null) => void) | null = null;
+  private closed = false;
+
+  constructor(
+    app: App,
+    commandHandlers: CommandHandlers,
+    credentials: Credentials,
+    onComplete?: () => void
+  ) {
+    super(app);
+    this.commandHandlers = commandHandlers;
+    this.credentials = credentials;
+    this.onComplete = onComplete ?? null;
+  }
+
+  async onOpen(): Promise<void> {
+    const deploy = (await readLeafpressConfig(this.app))?.deploy;
+    if (deploy && deploy.provider in PROVIDER_LABELS) {
+      this.provider = deploy.provider;
+      this.values = getDeploySettingValues(deploy);
+    }
+    this.renderForm();
+  }
+
+  onClose(): void {
+    this.closed = true;
+    // A question left unanswered stops the deploy
+    this.pendingAnswer?.(null);
+    this.pendingAnswer = null;
+    this.contentEl.empty();
+    this.onComplete?.();
+  }
+
+  private renderForm(errors: string[] = []): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    new Setting(contentEl).setName("Set up deployment").setHeading();
+
+    new Setting(contentEl)
+      .setName("Provider")
+      .setDesc("Where the site is published")
+      .addDropdown((dd) => {
+        for (const [value, label] of Object.entries(PROVIDER_LABELS)) {
+          dd.addOption(value, label);
+        }
+        dd.setValue(this.provider);
+        dd.onChange((value) => {
+          this.provider = value as DeployProvider;
+          this.renderForm();
+        });
+      });
+
+    renderDeploySettingFields(contentEl, this.provider, this.values);
+
+    const token = PROVIDER_TOKENS[this.provider];
+    if (token) {
+      const tokenUrl = TOKEN_URLS[this.provider];
+      const tokenDesc = document.createDocumentFragment();
+      if (tokenUrl) {
+        tokenDesc.appendText("Create one at ");
+        const tokenLink = tokenDesc.createEl("a", { text: tokenUrl, href: tokenUrl });
+        tokenLink.addEventListener("click", (e) => {
+          e.preventDefault();
+          openInBrowser(tokenUrl);
+        });
+        tokenDesc.appendText(". ");
+      }
+      tokenDesc.appendText(
+        this.credentials.has(this.provider)
+          ? `${describeCredential(this.credentials.getStatus(this.provider))}; leave empty to keep it.`
+          : "Stored encrypted on this device, not in leafpress.json."
+      );
+      new Setting(contentEl)
+        .setName(token.name)
+        .setDesc(tokenDesc)
+        .addText((text) => {
+          text.inputEl.type = "password";
+          text.setValue(this.token).onChange((value) => {
+            this.token = value;
+          });
+        });
+    }
+
+    if (errors.length > 0) {
+      const errorsEl = contentEl.createEl("ul", { cls: "leafpress-setup-errors" });
+      for (const error of errors) {
+        errorsEl.createEl("li", { text: error });
+      }
+    }
+
+    new Setting(contentEl)
+      .addButton((btn) =>
+        btn.setButtonText("Save").onClick(() => {
+          void this.save().then((saved) => {
+            if (saved) {
+              new Notice("Deployment settings saved");
+              this.close();
+            }
+          });
+        })
+      )
+      .addButton((btn) =>
+        btn
+          .setButtonText("Save and deploy")
+          .setCta()
+          .onClick(() => {
+            void this.save().then((saved) => {
+              if (saved) void this.runDeploy();
+            });
+          })
+      );
+  }
+
+  /**
+   * Write the provider and its settings to leafpress.json. Returns false,
+   * showing why, if they can't be saved.
+   */
+  private async save(): Promise<boolean> {
+    const errors = validateDeploySettingValues(this.provider, this.values);
+    const config = await readLeafpressConfig(this.app);
+    if (!config) errors.push("Initialize the site before setting up deployment");
+    if (errors.length > 0 || !config) {
+      this.renderForm(errors);
+      return false;
+    }
+
+    const existing = config.deploy?.provider === this.provider ? config.deploy.settings : {};
+    const settings = toDeploySettings(this.provider, this.values, existing);
+    config.deploy = { provider: this.provider, settings };
+    try {
+      await writeLeafpressConfig(this.app, config);
+      if (this.token.trim() && PROVIDER_TOKENS[this.provider]) {
+        await this.credentials.set(this.provider, this.token);
+      }
+    } catch (err) {
+      this.renderForm([`Couldn't save: ${String(err)}`]);
+      return false;
+    }
+    return true;
+  }
+
+  private async runDeploy(): Promise<void> {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.answered.clear();
+
+    new Setting(contentEl).setName(`Deploying to ${PROVIDER_LABELS[this.provider]}`).setHeading();
+    const statusEl = contentEl.createEl("p", { text: "Building and deploying..." });
+    const outputEl = contentEl.createEl("pre", { cls: "leafpress-pre leafpress-setup-output" });
+    const questionEl = contentEl.createEl("div");
+    const buttons = new Setting(contentEl);
+    buttons.addButton((btn) =>
+      btn.setButtonText("Cancel").onClick(() => {
+        btn.setDisabled(true);
+        this.commandHandlers.cancel();
+      })
+    );
+
+    const onOutput = (line: string) => {
+      if (this.closed) return;
+      outputEl.appendText(`${line}\n`);
+      while (outputEl.childNodes.length > MAX_OUTPUT_LINES) {
+        outputEl.firstChild?.remove();
+      }
+      outputEl.scrollTop = outputEl.scrollHeight;
+    };
+
+    let result: Awaited<ReturnType<CommandHandlers["setUpDeployment"]>>;
+    try {
+      result = await this.commandHandlers.setUpDeployment(
+        (prompt) => this.answerPrompt(prompt, questionEl),
+        onOutput
+      );
+    } catch (err) {
+      result = { success: false, error: String(err) };
+    }
+    if (this.closed) {
+      new Notice(result.success ? "Deployment set up" : `Deployment setup failed: ${result.error}`);
+      return;
+    }
+
+    questionEl.empty();
+    buttons.settingEl.remove();
+    const doneButtons = new Setting(contentEl);
+
+    if (result.success) {
+      statusEl.setText("Deployment is set up. Future deploys run from the panel or the deploy command.");
+      const { url } = result;
+      if (url) {
+        doneButtons.addButton((btn) =>
+          btn.setButtonText("Open site").onClick(() => openInBrowser(url))
+        );
+      }
+      doneButtons.addButton((btn) => btn.setButtonText("Done").setCta().onClick(() => this.close()));
+      return;
+    }
+
+    statusEl.setText(`Deployment failed: ${result.error}`);
+    statusEl.addClass("leafpress-warning-text");
+    doneButtons
+      .addButton((btn) =>
+        btn.setButtonText("Build log").onClick(() => {
+          void this.commandHandlers.showBuildLog();
+        })
+      )
+      .addButton((btn) => btn.setButtonText("Back").onClick(() => this.renderForm()));
+  }
+
+  /**
+   * Answer a question from the CLI with what was entered in the form, or
+   * ask the user when the form doesn't cover it
+   */
+  private async answerPrompt(prompt: string, questionEl: HTMLElement): Promise<string | null> {
+    if (CONFIRM_PROMPT.test(prompt)) {
+      return WIZARD_CONFIRMATIONS.some((pattern) => pattern.test(prompt))
+        ? "y"
+        : this.askUser(prompt, questionEl);
+    }
+
+    const field = TOKEN_PROMPT.test(prompt)
+      ? { key: "token", value: this.token.trim() || ((await this.credentials.getToken(this.provider)) ?? "") }
+      : getDeploySettingFields(this.provider)
+          .filter((candidate) => candidate.prompt?.test(prompt))
+          .map((candidate) => ({ key: candidate.key, value: this.values[candidate.key] ?? "" }))[0];
+
+    // Asked again means the first answer was rejected
+    if (field && field.value.trim() && !this.answered.has(field.key)) {
+      this.answered.add(field.key);
+      return field.value.trim();
+    }
+
+    return this.askUser(prompt, questionEl);
+  }
+
+  private askUser(prompt: string, questionEl: HTMLElement): Promise<string | null> {
+    if (this.closed) return Promise.resolve(null);
+
+    return new Promise((resolve) => {
+      this.pendingAnswer = resolve;
+      questionEl.empty();
+
+      let answer = "";
+      const send = () => {
+        this.pendingAnswer = null;
+        questionEl.empty();
+        resolve(answer);
+      };
+
+      new Setting(questionEl)
+        .setName(prompt)
+        .setDesc("The CLI is waiting for an answer")
+        .addText((text) => {
+          if (TOKEN_PROMPT.test(prompt)) text.inputEl.type = "password";
+          text.onChange((value) => {
+            answer = value;
+          });
+          text.inputEl.addEventListener("keydown", (e) => {
+            if (e.key === "Enter") send();
+          });
+          window.setTimeout(() => text.inputEl.focus(), 0);
+        })
+        .addButton((btn) => btn.setButtonText("Send").setCta().onClick(send));
+    });
+  }
+}
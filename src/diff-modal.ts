@@ -0,0 +1,107 @@
+import { App, Modal, Setting, TFile } from "obsidian";
+import { PendingFile } from "./utils/deploy-state";
+import { readSnapshot } from "./utils/snapshots";
+import { diffLines, toHunks } from "./utils/diff";
+
+/**
+ * Unified diff between the deployed version of a file and the current one
+ */
+export class PendingDiffModal extends Modal {
+  private pending: PendingFile;
+
+  constructor(app: App, pending: PendingFile) {
+    super(app);
+    this.pending = pending;
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass("leafpress-diff-modal");
+    const { contentEl } = this;
+    contentEl.createEl("h3", { text: this.pending.file });
+    const body = contentEl.createEl("div");
+    body.createEl("p", { text: "Loading...", cls: "leafpress-empty-state" });
+
+    void this.render(body);
+  }
+
+  private async render(body: HTMLElement): Promise<void> {
+    const { status, deployedHash } = this.pending;
+
+    let deployed = "";
+    if (status !== "added" && deployedHash) {
+      const snapshot = await readSnapshot(this.app, deployedHash);
+      if (snapshot === null) {
+        body.empty();
+        body.createEl("p", {
+          text: "The deployed version of this file isn't available. Snapshots are kept for files deployed from this plugin.",
+          cls: "leafpress-muted-text",
+        });
+        this.addButtons();
+        return;
+      }
+      deployed = snapshot;
+    }
+
+    let current = "";
+    if (status !== "deleted") {
+      const file = this.app.vault.getAbstractFileByPath(this.pending.file);
+      if (file instanceof TFile) {
+        current = await this.app.vault.cachedRead(file);
+      } else {
+        try {
+          current = await this.app.vault.adapter.read(this.pending.file);
+        } catch {
+          current = "";
+        }
+      }
+    }
+
+    body.empty();
+    const lines = diffLines(deployed, current);
+    const hunks = toHunks(lines);
+
+    const added = lines.filter((line) => line.type === "added").length;
+    const removed = lines.filter((line) => line.type === "removed").length;
+    body.createEl("p", {
+      text: `${status} · +${added} −${removed}`,
+      cls: "leafpress-deploy-info",
+    });
+
+    if (hunks.length === 0) {
+      body.createEl("p", {
+        text: "No content changes.",
+        cls: "leafpress-empty-state",
+      });
+    }
+
+    const diffEl = body.createEl("div", { cls: "leafpress-diff" });
+    for (const hunk of hunks) {
+      diffEl.createEl("div", {
+        text: `@@ −${hunk.oldStart} +${hunk.newStart} @@`,
+        cls: "leafpress-diff-hunk",
+      });
+      for (const line of hunk.lines) {
+        const prefix = line.type === "added" ? "+" : line.type === "removed" ? "−" : " ";
+        diffEl.createEl("div", {
+          text: `${prefix} ${line.text}`,
+          cls: `leafpress-diff-line is-${line.type}`,
+        });
+      }
+    }
+
+    this.addButtons();
+  }
+
+  private addButtons(): void {
+    const setting = new Setting(this.contentEl);
+    if (this.pending.status !== "deleted") {
+      setting.addButton((btn) =>
+        btn.setButtonText("Open note").onClick(() => {
+          this.close();
+          void this.app.workspace.openLinkText(this.pending.file, "", false);
+        })
+      );
+    }
+    setting.addButton((btn) => btn.setButtonText("Close").onClick(() => this.close()));
+  }
+}
@@ -0,0 +1,67 @@
+import { App, Modal, Setting } from "obsidian";
+import { LocalExportSettings } from "./cli/types";
+import { renderDeploySettingFields } from "./deploy-setup";
+import { toDeploySettings, validateDeploySettingValues } from "./utils/deploy-settings";
+
+/**
+ * Asks where to export the site: a folder or zip file, and the base path
+ * links are rewritten for
+ */
+export class ExportSiteModal extends Modal {
+  private values: Record<string, string>;
+  private onExport: (settings: Partial<LocalExportSettings>) => void;
+
+  constructor(
+    app: App,
+    values: Record<string, string>,
+    onExport: (settings: Partial<LocalExportSettings>) => void
+  ) {
+    super(app);
+    this.values = { ...values };
+    this.onExport = onExport;
+  }
+
+  onOpen(): void {
+    this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private render(errors: string[] = []): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    new Setting(contentEl).setName("Export site").setHeading();
+    contentEl.createEl("p", {
+      text: "Builds the site and copies it to a folder or zip file. To track which changes have been exported, deploy with the folder or zip provider instead.",
+    });
+
+    renderDeploySettingFields(contentEl, "local", this.values);
+
+    if (errors.length > 0) {
+      const errorsEl = contentEl.createEl("ul", { cls: "leafpress-setup-errors" });
+      for (const error of errors) {
+        errorsEl.createEl("li", { text: error });
+      }
+    }
+
+    new Setting(contentEl)
+      .addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()))
+      .addButton((btn) =>
+        btn
+          .setButtonText("Export")
+          .setCta()
+          .onClick(() => {
+            const problems = validateDeploySettingValues("local", this.values);
+            if (problems.length > 0) {
+              this.render(problems);
+              return;
+            }
+            this.close();
+            this.onExport(toDeploySettings("local", this.values) as Partial<LocalExportSettings>);
+          })
+      );
+  }
+}
@@ -0,0 +1,122 @@
+import { ItemView, WorkspaceLeaf, TFile, Notice } from "obsidian";
+import { checkLinks, LinkIssue, LinkIssueReason } from "./utils/link-check";
+
+export const VIEW_TYPE_LINK_REPORT = "leafpress-link-report";
+
+const REASON_LABELS: Record<LinkIssueReason, string> = {
+  missing: "Missing",
+  draft: "Draft",
+  ignored: "Ignored",
+  reserved: "Reserved folder",
+  hidden: "Hidden",
+};
+
+export class LinkReportView extends ItemView {
+  private isChecking = false;
+
+  constructor(leaf: WorkspaceLeaf) {
+    super(leaf);
+  }
+
+  getViewType() {
+    return VIEW_TYPE_LINK_REPORT;
+  }
+
+  getDisplayText() {
+    return "Link check";
+  }
+
+  getIcon() {
+    return "link";
+  }
+
+  async onOpen(): Promise<void> {
+    await this.refresh();
+  }
+
+  async refresh(): Promise<void> {
+    if (this.isChecking) return;
+    this.isChecking = true;
+
+    const container = this.containerEl.children[1];
+    container.empty();
+    const content = container.createEl("div", { cls: "leafpress-problems" });
+    content.createEl("p", { text: "Checking links...", cls: "leafpress-empty-state" });
+
+    try {
+      const issues = await checkLinks(this.app);
+      this.render(issues);
+    } catch (err) {
+      console.error("[leafpress] Link check failed:", err);
+      container.empty();
+      container.createEl("p", { text: `Error: ${err}` });
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  private render(issues: LinkIssue[]): void {
+    const container = this.containerEl.children[1];
+    container.empty();
+    const content = container.createEl("div", { cls: "leafpress-problems" });
+
+    const header = content.createEl("div", { cls: "leafpress-btn-row" });
+    const summary = header.createEl("span", { cls: "leafpress-deploy-info" });
+    summary.setText(
+      issues.length === 0
+        ? "All links point to published notes."
+        : `${issues.length} link(s) point to notes that won't be published`
+    );
+    const rerunBtn = header.createEl("button", { text: "Check again" });
+    rerunBtn.addEventListener("click", () => {
+      void this.refresh();
+    });
+
+    const groups = new Map<string, LinkIssue[]>();
+    for (const issue of issues) {
+      const group = groups.get(issue.source) ?? [];
+      group.push(issue);
+      groups.set(issue.source, group);
+    }
+
+    for (const [source, group] of groups) {
+      const groupEl = content.createEl("div", { cls: "leafpress-problems-group" });
+      groupEl.createEl("div", { text: source, cls: "leafpress-problems-file" });
+
+      const list = groupEl.createEl("ul", { cls: "leafpress-problems-list" });
+      for (const issue of group) {
+        const item = list.createEl("li", {
+          cls: `leafpress-problem is-clickable leafpress-problem-${issue.reason === "missing" ? "error" : "warning"}`,
+        });
+        item.createEl("span", {
+          text: issue.reason === "missing" ? "✗" : "⚠",
+          cls: "leafpress-problem-icon",
+        });
+        const link = issue.embed ? `![[${issue.link}]]` : `[[${issue.link}]]`;
+        const target = issue.target && issue.target !== issue.link ? ` → ${issue.target}` : "";
+        item.createEl("span", {
+          text: `${REASON_LABELS[issue.reason]}: ${link}${target}`,
+          cls: "leafpress-problem-message",
+        });
+        item.createEl("span", {
+          text: `line ${issue.line}`,
+          cls: "leafpress-problem-line",
+        });
+        item.addEventListener("click", () => {
+          void this.openSource(issue);
+        });
+      }
+    }
+  }
+
+  private async openSource(issue: LinkIssue): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(issue.source);
+    if (!(file instanceof TFile)) {
+      new Notice(`Note not found: ${issue.source}`);
+      return;
+    }
+
+    const leaf = this.app.workspace.getLeaf(false);
+    await leaf.openFile(file, { active: true, eState: { line: issue.line - 1 } });
+  }
+}
@@ -1,13 +1,39 @@
-import { Plugin, PluginSettingTab, App, Setting, Notice, Modal, TFolder } from "obsidian";
+import {
+  Plugin,
+  PluginSettingTab,
+  App,
+  Setting,
+  Notice,
+  Modal,
+  SuggestModal,
+  TFolder,
+  TFile,
+  Menu,
+} from "obsidian";
 import { BinaryManager } from "./cli/manager";
 import { CommandHandlers } from "./cli/handlers";
+import { RunLog } from "./cli/run-log";
+import { PreviewServer } from "./cli/preview-server";
 import { LeafpressPanel, VIEW_TYPE_LEAFPRESS } from "./panel";
-import { LeafpressConfig, DeployProvider } from "./cli/types";
+import { BuildLogView, VIEW_TYPE_BUILD_LOG } from "./build-log";
+import { ProblemsView, VIEW_TYPE_PROBLEMS } from "./problems";
+import { LinkReportView, VIEW_TYPE_LINK_REPORT } from "./link-report";
+import { PreviewView, VIEW_TYPE_PREVIEW } from "./preview-view";
+import { PublishStatusTracker } from "./publish-status";
+import { AutoDeployScheduler, parseTimeOfDay } from "./auto-deploy";
+import { BuildWatcher } from "./build-watch";
+import { SiteProfiles } from "./site-profiles";
+import { Credentials, describeCredential, PROVIDER_TOKENS } from "./credentials";
+import { LeafpressConfig, DeployProvider, DeployTarget } from "./cli/types";
 import {
   readLeafpressConfig,
   updateThemeProperty,
   updateFeatureToggle,
   updateSiteProperty,
+  updatePreviewPort,
+  DEFAULT_PORT,
+  PROVIDER_LABELS,
+  getProviderLabel,
 } from "./utils/config";
 import {
   LIGHT_GRADIENTS,
@@ -16,30 +42,64 @@ import {
   getGradientPresetId,
 } from "./utils/gradient-presets";
 import { FONT_DEFAULTS } from "./utils/fonts";
-
-interface LeafpressPluginSettings {
-  customBinaryPath: string;
-  autoUpdateBinary: boolean;
-}
-
-const DEFAULT_SETTINGS: LeafpressPluginSettings = {
-  customBinaryPath: "",
-  autoUpdateBinary: true,
-};
+import { getAnchorAtLine, LinkFormat } from "./utils/urls";
+import { getTargetKey, PRODUCTION_LABEL } from "./utils/deploy-targets";
+import { setPluginDir } from "./utils/plugin-dir";
+import {
+  getDeploySettingValues,
+  toDeploySettings,
+  validateDeploySettings,
+  validateDeploySettingValues,
+} from "./utils/deploy-settings";
+import { renderDeploySettingFields } from "./deploy-setup";
+import {
+  SiteProfile,
+  LeafpressPluginSettings,
+  DEFAULT_SETTINGS,
+  LinkCheckMode,
+  StaleBuildMode,
+  AutoDeployMode,
+} from "./settings";
 
 export default class LeafpressPlugin extends Plugin {
   settings: LeafpressPluginSettings;
   binaryManager: BinaryManager;
   commandHandlers: CommandHandlers;
+  runLog: RunLog;
+  previewServer: PreviewServer;
+  publishStatus: PublishStatusTracker;
+  autoDeploy: AutoDeployScheduler;
+  buildWatcher: BuildWatcher;
+  siteProfiles: SiteProfiles;
+  credentials: Credentials;
 
   async onload() {
+    setPluginDir(this.manifest.dir);
     await this.loadSettings();
 
+    this.siteProfiles = new SiteProfiles(this.app, this.settings, () => this.saveSettings());
+    this.credentials = new Credentials(this.settings, () => this.saveSettings());
+
     this.binaryManager = new BinaryManager(this.app, this.settings);
+    this.runLog = new RunLog(this.settings.buildLogHistorySize);
+
+    // One preview server shared by the commands and the panel
+    this.previewServer = new PreviewServer(
+      this.app,
+      this.binaryManager,
+      this.settings,
+      this.runLog
+    );
+    this.addChild(this.previewServer);
+
     this.commandHandlers = new CommandHandlers(
       this.app,
       this.binaryManager,
-      this
+      this.settings,
+      this.runLog,
+      this.previewServer,
+      this.siteProfiles,
+      this.credentials
     );
 
     // Register commands
@@ -67,6 +127,62 @@ export default class LeafpressPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: "preview-pane",
+      name: "Open preview pane",
+      callback: async () => {
+        await this.commandHandlers.showPreviewPane();
+      },
+    });
+
+    this.addCommand({
+      id: "preview-note",
+      name: "Preview current note",
+      checkCallback: (checking) => {
+        const file = this.getActiveNote();
+        if (!file) return false;
+        if (!checking) {
+          void this.commandHandlers.previewNote(file);
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "open-note-live",
+      name: "Open current note on live site",
+      checkCallback: (checking) => {
+        const file = this.getActiveNote();
+        if (!file) return false;
+        if (!checking) {
+          void this.commandHandlers.openNoteOnLiveSite(file);
+        }
+        return true;
+      },
+    });
+
+    const linkCommands: Array<{ id: string; name: string; format: LinkFormat }> = [
+      { id: "copy-link", name: "Copy published link", format: "url" },
+      { id: "copy-link-markdown", name: "Copy published link as Markdown", format: "markdown" },
+      { id: "copy-link-html", name: "Copy published link as HTML anchor", format: "html" },
+    ];
+    for (const { id, name, format } of linkCommands) {
+      this.addCommand({
+        id,
+        name,
+        // Links to the heading or block under the cursor, otherwise the note
+        editorCheckCallback: (checking, editor, ctx) => {
+          const file = ctx.file;
+          if (file?.extension !== "md") return false;
+          if (!checking) {
+            const anchor = getAnchorAtLine(this.app, file, editor.getCursor().line);
+            void this.commandHandlers.copyPublishedLink(file, format, anchor);
+          }
+          return true;
+        },
+      });
+    }
+
     this.addCommand({
       id: "deploy",
       name: "Deploy",
@@ -75,6 +191,115 @@ export default class LeafpressPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: "export-site",
+      name: "Export site",
+      callback: async () => {
+        await this.commandHandlers.exportSite();
+      },
+    });
+
+    this.addCommand({
+      id: "set-up-deployment",
+      name: "Set up deployment",
+      callback: () => {
+        this.commandHandlers.openDeploySetup();
+      },
+    });
+
+    this.addCommand({
+      id: "switch-site",
+      name: "Switch site profile",
+      checkCallback: (checking) => {
+        if (this.siteProfiles.getProfiles().length < 2) return false;
+        if (!checking) {
+          new SiteProfileSuggestModal(this.app, this.siteProfiles, (profile) => {
+            void this.commandHandlers.switchProfile(profile.id);
+          }).open();
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "deploy-to",
+      name: "Deploy to…",
+      callback: async () => {
+        const config = await readLeafpressConfig(this.app);
+        const choices: DeployTargetChoice[] = [
+          { name: PRODUCTION_LABEL },
+          ...(config?.targets ?? []).map((target) => ({ name: target.name, target })),
+        ];
+        new DeployTargetSuggestModal(this.app, choices, (choice) => {
+          void (choice.target
+            ? this.commandHandlers.deployToTarget(choice.target.name)
+            : this.commandHandlers.deploy());
+        }).open();
+      },
+    });
+
+    this.addCommand({
+      id: "promote-target",
+      name: "Promote a deploy target to production",
+      callback: async () => {
+        const config = await readLeafpressConfig(this.app);
+        const targets = config?.targets ?? [];
+        if (targets.length === 0) {
+          new Notice("No deploy targets yet. Add one in settings under deployment.");
+          return;
+        }
+        new DeployTargetSuggestModal(
+          this.app,
+          targets.map((target) => ({ name: target.name, target })),
+          (choice) => void this.commandHandlers.promote(choice.name)
+        ).open();
+      },
+    });
+
+    this.addCommand({
+      id: "toggle-watch",
+      name: "Toggle watch mode",
+      callback: async () => {
+        await this.buildWatcher.setEnabled(!this.settings.watchMode);
+      },
+    });
+
+    this.addCommand({
+      id: "cancel",
+      name: "Cancel current operation",
+      checkCallback: (checking) => {
+        if (!this.commandHandlers.isBusy()) return false;
+        if (!checking) {
+          this.commandHandlers.cancel();
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "build-log",
+      name: "Open build log",
+      callback: async () => {
+        await this.commandHandlers.showBuildLog();
+      },
+    });
+
+    this.addCommand({
+      id: "build-problems",
+      name: "Show build problems",
+      callback: async () => {
+        await this.commandHandlers.showProblems();
+      },
+    });
+
+    this.addCommand({
+      id: "check-links",
+      name: "Check links before publishing",
+      callback: async () => {
+        await this.commandHandlers.showLinkReport();
+      },
+    });
+
     this.addCommand({
       id: "settings",
       name: "Open settings",
@@ -83,6 +308,36 @@ export default class LeafpressPlugin extends Plugin {
       },
     });
 
+    // Note actions in the editor and file explorer menus
+    this.registerEvent(
+      this.app.workspace.on("editor-menu", (menu, editor, view) => {
+        const file = view.file;
+        if (file?.extension !== "md") return;
+        this.addNoteMenuItems(menu, file);
+        menu.addItem((item) =>
+          item
+            .setTitle("Copy published link")
+            .setIcon("link")
+            .onClick(() => {
+              const anchor = getAnchorAtLine(this.app, file, editor.getCursor().line);
+              void this.commandHandlers.copyPublishedLink(file, "url", anchor);
+            })
+        );
+      })
+    );
+    this.registerEvent(
+      this.app.workspace.on("file-menu", (menu, file) => {
+        if (!(file instanceof TFile) || file.extension !== "md") return;
+        this.addNoteMenuItems(menu, file);
+        menu.addItem((item) =>
+          item
+            .setTitle("Copy published link")
+            .setIcon("link")
+            .onClick(() => void this.commandHandlers.copyPublishedLink(file, "url"))
+        );
+      })
+    );
+
     // Register ribbon icon
     this.addRibbonIcon("rocket", "Deploy site", () => {
       void this.commandHandlers.deploy();
@@ -91,13 +346,71 @@ export default class LeafpressPlugin extends Plugin {
     // Register status panel
     this.registerView(
       VIEW_TYPE_LEAFPRESS,
-      (leaf) => new LeafpressPanel(leaf, this.binaryManager)
+      (leaf) =>
+        new LeafpressPanel(
+          leaf,
+          this.previewServer,
+          this.commandHandlers,
+          this.buildWatcher,
+          this.siteProfiles,
+          this.credentials,
+          this.settings
+        )
+    );
+
+    this.registerView(
+      VIEW_TYPE_BUILD_LOG,
+      (leaf) => new BuildLogView(leaf, this.runLog)
+    );
+
+    this.registerView(
+      VIEW_TYPE_PROBLEMS,
+      (leaf) => new ProblemsView(leaf, this.runLog)
+    );
+
+    this.registerView(
+      VIEW_TYPE_LINK_REPORT,
+      (leaf) => new LinkReportView(leaf)
+    );
+
+    this.registerView(
+      VIEW_TYPE_PREVIEW,
+      (leaf) => new PreviewView(leaf, this.previewServer, this.runLog, this.commandHandlers)
     );
 
     this.addRibbonIcon("leaf", "Open status panel", () => {
       void this.activateView();
     });
 
+    // Publish status badges in the file explorer and status bar
+    this.publishStatus = new PublishStatusTracker(
+      this.app,
+      this.settings,
+      this.runLog,
+      this.addStatusBarItem()
+    );
+    this.addChild(this.publishStatus);
+
+    // Rebuild on change
+    this.buildWatcher = new BuildWatcher(
+      this.app,
+      this.settings,
+      this.commandHandlers,
+      () => this.saveSettings()
+    );
+    this.addChild(this.buildWatcher);
+
+    // Scheduled and after-edit deploys
+    this.autoDeploy = new AutoDeployScheduler(this.app, this.settings, this.commandHandlers);
+    this.addChild(this.autoDeploy);
+
+    // The publish status depends on the active site's ignore rules
+    this.register(
+      this.siteProfiles.onChange(() => {
+        void this.publishStatus.refresh();
+      })
+    );
+
     // Register settings tab
     this.addSettingTab(new LeafpressSettingTab(this.app, this));
 
@@ -110,12 +423,22 @@ export default class LeafpressPlugin extends Plugin {
   }
 
   onunload() {
-    // Cleanup
+    // The preview server, watcher and scheduler are registered children and
+    // stop themselves; a build or deploy in progress, by the CLI or by the
+    // plugin itself, has to be stopped here
+    this.commandHandlers?.stopRuns();
   }
 
   async loadSettings(): Promise<void> {
     const data = await this.loadData() as Partial<LeafpressPluginSettings> | null;
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+    // Cloned so the defaults' own objects and arrays are never mutated
+    const defaults = window.structuredClone(DEFAULT_SETTINGS);
+    this.settings = Object.assign(defaults, data, {
+      // Nested sections are merged, so entries saved by an older version
+      // still get the defaults added since
+      credentials: { ...defaults.credentials, ...data?.credentials },
+      profiles: data?.profiles?.length ? data.profiles : defaults.profiles,
+    });
   }
 
   async saveSettings() {
@@ -141,6 +464,26 @@ export default class LeafpressPlugin extends Plugin {
     }
   }
 
+  private getActiveNote(): TFile | null {
+    const file = this.app.workspace.getActiveFile();
+    return file?.extension === "md" ? file : null;
+  }
+
+  private addNoteMenuItems(menu: Menu, file: TFile): void {
+    menu.addItem((item) =>
+      item
+        .setTitle("Preview note")
+        .setIcon("eye")
+        .onClick(() => void this.commandHandlers.previewNote(file))
+    );
+    menu.addItem((item) =>
+      item
+        .setTitle("Open note on live site")
+        .setIcon("globe")
+        .onClick(() => void this.commandHandlers.openNoteOnLiveSite(file))
+    );
+  }
+
   openSettings(): void {
     // Open settings window and focus on this plugin's tab
     const appWithSettings = this.app as App & { setting?: { open(): void; openTabById?(id: string): void } };
@@ -166,6 +509,7 @@ class LeafpressSettingTab extends PluginSettingTab {
     // Load current config
     void readLeafpressConfig(this.app).then((config) => {
       this.currentConfig = config;
+      this.displaySiteProfiles(containerEl);
       this.displaySiteConfiguration(containerEl);
       this.displayPluginSettings(containerEl);
     });
@@ -199,6 +543,148 @@ class LeafpressSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("Auto-select free port")
+      .setDesc("Start the preview server on the next free port when the configured one is busy")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.autoSelectPort)
+          .onChange(async (value) => {
+            this.plugin.settings.autoSelectPort = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Stop idle preview server")
+      .setDesc("Minutes without edits, builds or opening the preview before the server stops. Set to 0 to keep it running.")
+      .addText((text) => {
+        text
+          .setPlaceholder(String(DEFAULT_SETTINGS.previewIdleShutdownMinutes))
+          .setValue(String(this.plugin.settings.previewIdleShutdownMinutes))
+          .onChange(async (value) => {
+            const minutes = parseFloat(value);
+            if (isNaN(minutes) || minutes < 0) return;
+            this.plugin.settings.previewIdleShutdownMinutes = minutes;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.type = "number";
+      });
+
+    new Setting(containerEl)
+      .setName("Publish badges in file explorer")
+      .setDesc("Mark notes as published, draft, ignored, modified or never deployed")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.showPublishBadges)
+          .onChange(async (value) => {
+            this.plugin.settings.showPublishBadges = value;
+            await this.plugin.saveSettings();
+            this.plugin.publishStatus.applySettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Publish status in status bar")
+      .setDesc("Show the publish status of the active note in the status bar")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.showPublishStatusBar)
+          .onChange(async (value) => {
+            this.plugin.settings.showPublishStatusBar = value;
+            await this.plugin.saveSettings();
+            this.plugin.publishStatus.applySettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Show build log while running")
+      .setDesc("Open the build log automatically when a build or deploy starts")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.showBuildLogOnRun)
+          .onChange(async (value) => {
+            this.plugin.settings.showBuildLogOnRun = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Build log history")
+      .setDesc("Number of recent builds and deploys to keep in the build log")
+      .addText((text) => {
+        text
+          .setPlaceholder(String(DEFAULT_SETTINGS.buildLogHistorySize))
+          .setValue(String(this.plugin.settings.buildLogHistorySize))
+          .onChange(async (value) => {
+            const size = parseInt(value, 10);
+            if (isNaN(size) || size < 1) return;
+            this.plugin.settings.buildLogHistorySize = size;
+            this.plugin.runLog.setMaxRuns(size);
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.type = "number";
+      });
+
+    new Setting(containerEl)
+      .setName("Watch mode")
+      .setDesc("Rebuild the site automatically when notes, leafpress.json, style.css or static files change")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.watchMode).onChange(async (value) => {
+          this.plugin.settings.watchMode = value;
+          await this.plugin.saveSettings();
+          this.plugin.buildWatcher.applySettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Watch delay")
+      .setDesc("Seconds to wait after the last change before rebuilding")
+      .addText((text) => {
+        text
+          .setPlaceholder(String(DEFAULT_SETTINGS.watchDebounceSeconds))
+          .setValue(String(this.plugin.settings.watchDebounceSeconds))
+          .onChange(async (value) => {
+            const seconds = parseFloat(value);
+            if (isNaN(seconds) || seconds < 0) return;
+            this.plugin.settings.watchDebounceSeconds = seconds;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.type = "number";
+      });
+
+    new Setting(containerEl)
+      .setName("Build timeout")
+      .setDesc("Minutes before a running build is stopped")
+      .addText((text) => {
+        text
+          .setPlaceholder(String(DEFAULT_SETTINGS.buildTimeoutMinutes))
+          .setValue(String(this.plugin.settings.buildTimeoutMinutes))
+          .onChange(async (value) => {
+            const minutes = parseFloat(value);
+            if (isNaN(minutes) || minutes <= 0) return;
+            this.plugin.settings.buildTimeoutMinutes = minutes;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.type = "number";
+      });
+
+    new Setting(containerEl)
+      .setName("Deploy timeout")
+      .setDesc("Minutes before a running deploy is stopped")
+      .addText((text) => {
+        text
+          .setPlaceholder(String(DEFAULT_SETTINGS.deployTimeoutMinutes))
+          .setValue(String(this.plugin.settings.deployTimeoutMinutes))
+          .onChange(async (value) => {
+            const minutes = parseFloat(value);
+            if (isNaN(minutes) || minutes <= 0) return;
+            this.plugin.settings.deployTimeoutMinutes = minutes;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.type = "number";
+      });
+
     new Setting(containerEl)
       .setName("Check for updates")
       .setDesc("Check for new versions of the leafpress CLI")
@@ -264,6 +750,87 @@ class LeafpressSettingTab extends PluginSettingTab {
       );
   }
 
+  private displaySiteProfiles(containerEl: HTMLElement): void {
+    const { siteProfiles, commandHandlers } = this.plugin;
+    const active = siteProfiles.getActive();
+
+    new Setting(containerEl).setName("Sites").setHeading();
+
+    new Setting(containerEl)
+      .setName("Active site")
+      .setDesc("Settings below, the panel and every command use this site's config, deploy state and history")
+      .addDropdown((dd) => {
+        for (const profile of siteProfiles.getProfiles()) {
+          dd.addOption(profile.id, profile.name);
+        }
+        dd.setValue(active.id);
+        dd.onChange(async (value) => {
+          await commandHandlers.switchProfile(value);
+          this.display();
+        });
+      });
+
+    for (const profile of siteProfiles.getProfiles()) {
+      const isActive = profile.id === active.id;
+      new Setting(containerEl)
+        .setName(profile.name)
+        .setDesc(isActive ? "Active" : "")
+        .addButton((btn) =>
+          btn.setButtonText("Rename").onClick(async () => {
+            const name = await this.promptSiteName("Rename site", profile.name);
+            if (!name) return;
+            await siteProfiles.rename(profile.id, name);
+            this.display();
+          })
+        )
+        .addButton((btn) =>
+          btn
+            .setButtonText("Delete")
+            .setWarning()
+            .setDisabled(isActive)
+            .setTooltip(isActive ? "Switch to another site first" : "")
+            .onClick(async () => {
+              try {
+                await siteProfiles.remove(profile.id);
+                new Notice(`Site deleted: ${profile.name}`);
+              } catch (err) {
+                new Notice(String(err));
+              }
+              this.display();
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName("Add site")
+      .setDesc("A separate site with its own config, output folder, deploy target and history. Copy starts from the active site's theme and settings.")
+      .addButton((btn) =>
+        btn.setButtonText("Copy active").onClick(async () => {
+          await this.addSiteProfile(true);
+        })
+      )
+      .addButton((btn) =>
+        btn.setButtonText("Empty").onClick(async () => {
+          await this.addSiteProfile(false);
+        })
+      );
+  }
+
+  private async addSiteProfile(copyConfig: boolean): Promise<void> {
+    const name = await this.promptSiteName("Add site", "");
+    if (!name) return;
+
+    const profile = await this.plugin.siteProfiles.create(name, copyConfig);
+    await this.plugin.commandHandlers.switchProfile(profile.id);
+    this.display();
+  }
+
+  private promptSiteName(title: string, defaultName: string): Promise<string | null> {
+    return new Promise((resolve) => {
+      new SiteNameModal(this.app, title, defaultName, resolve).open();
+    });
+  }
+
   private displaySiteConfiguration(containerEl: HTMLElement): void {
     if (!this.currentConfig) {
       this.displayInitializePrompt(containerEl);
@@ -297,6 +864,10 @@ class LeafpressSettingTab extends PluginSettingTab {
     new Setting(containerEl).setName("Deployment").setHeading();
     this.displayDeploymentSettings(containerEl);
 
+    // Automatic deploys
+    new Setting(containerEl).setName("Automatic deploys").setHeading();
+    this.displayAutoDeploySettings(containerEl);
+
     // Note template
     new Setting(containerEl).setName("Note template").setHeading();
     this.displayNoteTemplate(containerEl);
@@ -372,6 +943,28 @@ class LeafpressSettingTab extends PluginSettingTab {
         text.inputEl.addClass("leafpress-wide-input");
       });
 
+    new Setting(containerEl)
+      .setName("Preview port")
+      .setDesc(`Port for the local preview server (default ${DEFAULT_PORT})`)
+      .addText((text) => {
+        text
+          .setPlaceholder(String(DEFAULT_PORT))
+          .setValue(config?.port ? String(config.port) : "")
+          .onChange(async (value) => {
+            const trimmed = value.trim();
+            if (!trimmed) {
+              await updatePreviewPort(this.app, null);
+              return;
+            }
+            const port = Number(trimmed);
+            if (!Number.isInteger(port) || port < 1 || port > 65535) {
+              return;
+            }
+            await updatePreviewPort(this.app, port);
+          });
+        text.inputEl.type = "number";
+      });
+
     new Setting(containerEl)
       .setName("Social image")
       .setDesc("Default image for social sharing (og:image)")
@@ -698,10 +1291,7 @@ class LeafpressSettingTab extends PluginSettingTab {
       .setName("Provider")
       .setDesc(isConfigured ? "Configured" : "Not configured")
       .addDropdown((dd) => {
-        // eslint-disable-next-line obsidianmd/ui/sentence-case -- Brand name is stylized as-is
-        dd.addOption("github-pages", "GitHub Pages");
-        dd.addOption("vercel", "Vercel");
-        dd.addOption("netlify", "Netlify");
+        dd.addOptions(PROVIDER_LABELS);
         dd.setValue(provider);
         dd.onChange(async (value) => {
           if (!config) return;
@@ -718,18 +1308,141 @@ class LeafpressSettingTab extends PluginSettingTab {
         });
       });
 
+    if (config) {
+      const values = getDeploySettingValues(deployConfig);
+      renderDeploySettingFields(containerEl, provider, values);
+
+      // Problems with what's saved, which would stop a deploy
+      const errors = deployConfig ? validateDeploySettings(deployConfig) : [];
+      const saveSetting = new Setting(containerEl)
+        .setName("Save provider settings")
+        .setDesc("Settings are checked before every deploy")
+        .addButton((btn) =>
+          btn.setButtonText("Save").onClick(async () => {
+            const problems = validateDeploySettingValues(provider, values);
+            if (problems.length > 0) {
+              new Notice(problems.join("\n"));
+              return;
+            }
+            config.deploy = {
+              provider,
+              settings: toDeploySettings(provider, values, deployConfig?.settings),
+            };
+            const { writeLeafpressConfig } = await import("./utils/config");
+            await writeLeafpressConfig(this.app, config);
+            new Notice("Deploy settings saved");
+            this.display();
+          })
+        );
+      if (errors.length > 0) {
+        const errorsEl = saveSetting.descEl.createEl("ul", { cls: "leafpress-setup-errors" });
+        for (const error of errors) {
+          errorsEl.createEl("li", { text: error });
+        }
+      }
+    }
+
     new Setting(containerEl)
-      .setName("Configure")
-      // eslint-disable-next-line obsidianmd/ui/sentence-case -- Setup guide is a section within settings
-      .setDesc("Click Setup guide for terminal command")
+      .setName("Set up")
+      .setDesc("Enter the provider details and a token, then run the first deploy")
       .addButton((btn) =>
-        btn.setButtonText("Setup guide").onClick(() => {
-          new DeploymentSetupModal(this.app, this.currentConfig, () => {
-            this.display();
-          }).open();
+        btn.setButtonText("Setup wizard").onClick(() => {
+          this.plugin.commandHandlers.openDeploySetup(() => this.display());
         })
       );
 
+    this.displayCredentials(containerEl);
+
+    this.displayDeployTargets(containerEl);
+
+    new Setting(containerEl)
+      .setName("Link check before deploy")
+      .setDesc("Check for links to notes that won't be published before each deploy")
+      .addDropdown((dd) => {
+        dd.addOption("off", "Off");
+        dd.addOption("warn", "Warn and continue");
+        dd.addOption("block", "Block deploy");
+        dd.setValue(this.plugin.settings.linkCheckOnDeploy);
+        dd.onChange(async (value) => {
+          this.plugin.settings.linkCheckOnDeploy = value as LinkCheckMode;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName("Out-of-date build")
+      .setDesc("What to do when notes changed after the last build, since deploy uploads the existing build")
+      .addDropdown((dd) => {
+        dd.addOption("build", "Build first");
+        dd.addOption("warn", "Warn and continue");
+        dd.addOption("block", "Block deploy");
+        dd.setValue(this.plugin.settings.staleBuildOnDeploy);
+        dd.onChange(async (value) => {
+          this.plugin.settings.staleBuildOnDeploy = value as StaleBuildMode;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName("Confirm before deploying")
+      .setDesc("Show the provider, target and changes, and ask before each deploy")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.confirmBeforeDeploy).onChange(async (value) => {
+          this.plugin.settings.confirmBeforeDeploy = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Deletion warning")
+      .setDesc("Warn before deploying when more than this many pages are deleted")
+      .addText((text) => {
+        text
+          .setPlaceholder(String(DEFAULT_SETTINGS.deletionWarningThreshold))
+          .setValue(String(this.plugin.settings.deletionWarningThreshold))
+          .onChange(async (value) => {
+            const count = parseInt(value, 10);
+            if (isNaN(count) || count < 0) return;
+            this.plugin.settings.deletionWarningThreshold = count;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.type = "number";
+      });
+
+    new Setting(containerEl)
+      .setName("Deploy history")
+      .setDesc("Number of recent deploys to keep in the panel's history")
+      .addText((text) => {
+        text
+          .setPlaceholder(String(DEFAULT_SETTINGS.deployHistorySize))
+          .setValue(String(this.plugin.settings.deployHistorySize))
+          .onChange(async (value) => {
+            const size = parseInt(value, 10);
+            if (isNaN(size) || size < 1) return;
+            this.plugin.settings.deployHistorySize = size;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.type = "number";
+      });
+
+    new Setting(containerEl)
+      .setName("Saved sites")
+      .setDesc(
+        "Number of recent deploys whose built site is kept for redeploying. Older deploys are rebuilt from their notes instead. Set to 0 to save disk space."
+      )
+      .addText((text) => {
+        text
+          .setPlaceholder(String(DEFAULT_SETTINGS.siteSnapshotCount))
+          .setValue(String(this.plugin.settings.siteSnapshotCount))
+          .onChange(async (value) => {
+            const count = parseInt(value, 10);
+            if (isNaN(count) || count < 0) return;
+            this.plugin.settings.siteSnapshotCount = count;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.type = "number";
+      });
+
     new Setting(containerEl)
       .setName("Deploy now")
       .setDesc("Build and deploy your site")
@@ -740,6 +1453,234 @@ class LeafpressSettingTab extends PluginSettingTab {
       );
   }
 
+  /**
+   * Deploy tokens, one row per provider. They're stored encrypted on this
+   * device and only passed to deploy runs.
+   */
+  private displayCredentials(containerEl: HTMLElement): void {
+    const { credentials } = this.plugin;
+
+    for (const [provider, { name }] of Object.entries(PROVIDER_TOKENS) as Array<
+      [DeployProvider, { name: string }]
+    >) {
+      const stored = credentials.has(provider);
+      let token = "";
+
+      const setting = new Setting(containerEl)
+        .setName(name)
+        .setDesc(describeCredential(credentials.getStatus(provider)))
+        .addText((text) => {
+          text.inputEl.type = "password";
+          text
+            .setPlaceholder(stored ? "New token to replace it" : "Paste a token")
+            .onChange((value) => {
+              token = value;
+            });
+        })
+        .addButton((btn) =>
+          btn.setButtonText("Save").onClick(async () => {
+            if (!token.trim()) return;
+            try {
+              await credentials.set(provider, token);
+              new Notice(`${name} saved`);
+            } catch (err) {
+              new Notice(`Failed to save token: ${String(err)}`);
+            }
+            this.display();
+          })
+        );
+
+      if (!stored) continue;
+
+      if (credentials.canTest(provider)) {
+        setting.addButton((btn) =>
+          btn.setButtonText("Test credentials").onClick(async () => {
+            btn.setDisabled(true).setButtonText("Testing...");
+            const { ok, message } = await credentials.test(provider);
+            new Notice(ok ? message : `Token check failed: ${message}`);
+            this.display();
+          })
+        );
+      }
+      setting.addButton((btn) =>
+        btn
+          .setButtonText("Remove")
+          .setWarning()
+          .onClick(async () => {
+            await credentials.remove(provider);
+            this.display();
+          })
+      );
+    }
+  }
+
+  private displayDeployTargets(containerEl: HTMLElement): void {
+    const targets = this.currentConfig?.targets ?? [];
+
+    for (const [index, target] of targets.entries()) {
+      new Setting(containerEl)
+        .setName(`Target: ${target.name}`)
+        .setDesc(
+          [getProviderLabel(target.provider), target.baseURL].filter(Boolean).join(" · ")
+        )
+        .addButton((btn) =>
+          btn.setButtonText("Edit").onClick(async () => {
+            const result = await this.promptDeployTarget("Edit deploy target", target);
+            if (!result) return;
+            await this.saveDeployTargets(targets.map((item, i) => (i === index ? result : item)));
+          })
+        )
+        .addButton((btn) =>
+          btn
+            .setButtonText("Delete")
+            .setWarning()
+            .onClick(async () => {
+              await this.saveDeployTargets(targets.filter((_, i) => i !== index));
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName("Add deploy target")
+      .setDesc(`A named destination besides ${PRODUCTION_LABEL.toLowerCase()}, such as a staging site. Deploy to it with the "Deploy to…" command or from the panel.`)
+      .addButton((btn) =>
+        btn.setButtonText("Add").onClick(async () => {
+          const result = await this.promptDeployTarget("Add deploy target", null);
+          if (!result) return;
+          await this.saveDeployTargets([...targets, result]);
+        })
+      );
+  }
+
+  private async saveDeployTargets(targets: DeployTarget[]): Promise<void> {
+    const config = this.currentConfig;
+    if (!config) return;
+
+    if (targets.length > 0) {
+      config.targets = targets;
+    } else {
+      delete config.targets;
+    }
+    const { writeLeafpressConfig } = await import("./utils/config");
+    await writeLeafpressConfig(this.app, config);
+    this.display();
+  }
+
+  private promptDeployTarget(title: string, target: DeployTarget | null): Promise<DeployTarget | null> {
+    const others = (this.currentConfig?.targets ?? []).filter((item) => item !== target);
+    return new Promise((resolve) => {
+      new DeployTargetModal(this.app, title, target, others, resolve).open();
+    });
+  }
+
+  private displayAutoDeploySettings(containerEl: HTMLElement): void {
+    const settings = this.plugin.settings;
+
+    new Setting(containerEl)
+      .setName("Automatic deploy")
+      .setDesc("Build and deploy pending changes without clicking deploy. Only sites that have been deployed once are deployed automatically.")
+      .addDropdown((dd) => {
+        dd.addOption("off", "Off");
+        dd.addOption("interval", "On an interval");
+        dd.addOption("times", "At set times");
+        dd.addOption("after-edit", "After editing stops");
+        dd.setValue(settings.autoDeployMode);
+        dd.onChange(async (value) => {
+          settings.autoDeployMode = value as AutoDeployMode;
+          await this.plugin.saveSettings();
+          this.plugin.autoDeploy.reset();
+          this.display();
+        });
+      });
+
+    if (settings.autoDeployMode === "interval") {
+      new Setting(containerEl)
+        .setName("Deploy interval")
+        .setDesc("Minutes between automatic deploys")
+        .addText((text) => {
+          text
+            .setPlaceholder(String(DEFAULT_SETTINGS.autoDeployIntervalMinutes))
+            .setValue(String(settings.autoDeployIntervalMinutes))
+            .onChange(async (value) => {
+              const minutes = parseFloat(value);
+              if (isNaN(minutes) || minutes < 1) return;
+              settings.autoDeployIntervalMinutes = minutes;
+              await this.plugin.saveSettings();
+              this.plugin.autoDeploy.reset();
+            });
+          text.inputEl.type = "number";
+        });
+    } else if (settings.autoDeployMode === "times") {
+      new Setting(containerEl)
+        .setName("Deploy times")
+        .setDesc("Times of day to deploy, in 24-hour format, separated by commas")
+        .addText((text) =>
+          text
+            .setPlaceholder(DEFAULT_SETTINGS.autoDeployTimes)
+            .setValue(settings.autoDeployTimes)
+            .onChange(async (value) => {
+              settings.autoDeployTimes = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    } else if (settings.autoDeployMode === "after-edit") {
+      new Setting(containerEl)
+        .setName("Deploy after")
+        .setDesc("Minutes without edits before pending changes are deployed")
+        .addText((text) => {
+          text
+            .setPlaceholder(String(DEFAULT_SETTINGS.autoDeployIdleMinutes))
+            .setValue(String(settings.autoDeployIdleMinutes))
+            .onChange(async (value) => {
+              const minutes = parseFloat(value);
+              if (isNaN(minutes) || minutes <= 0) return;
+              settings.autoDeployIdleMinutes = minutes;
+              await this.plugin.saveSettings();
+            });
+          text.inputEl.type = "number";
+        });
+    }
+
+    if (settings.autoDeployMode === "off") return;
+
+    new Setting(containerEl)
+      .setName("Quiet hours")
+      .setDesc("Don't deploy automatically during these hours")
+      .addToggle((toggle) =>
+        toggle.setValue(settings.quietHoursEnabled).onChange(async (value) => {
+          settings.quietHoursEnabled = value;
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    if (settings.quietHoursEnabled) {
+      new Setting(containerEl)
+        .setName("Quiet hours start and end")
+        .setDesc("24-hour times. Quiet hours may run past midnight.")
+        .addText((text) =>
+          text
+            .setPlaceholder(DEFAULT_SETTINGS.quietHoursStart)
+            .setValue(settings.quietHoursStart)
+            .onChange(async (value) => {
+              if (parseTimeOfDay(value) === null) return;
+              settings.quietHoursStart = value.trim();
+              await this.plugin.saveSettings();
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder(DEFAULT_SETTINGS.quietHoursEnd)
+            .setValue(settings.quietHoursEnd)
+            .onChange(async (value) => {
+              if (parseTimeOfDay(value) === null) return;
+              settings.quietHoursEnd = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+  }
+
   private displayFeatureToggles(containerEl: HTMLElement): void {
     const config = this.currentConfig;
 
@@ -808,7 +1749,9 @@ class LeafpressSettingTab extends PluginSettingTab {
     const ignoredDirs = this.currentConfig?.ignore || [];
 
     new Setting(containerEl)
-      .setDesc("Directories and files to exclude from the build (glob patterns supported)");
+      .setDesc(
+        "Directories and files to exclude from the build. Glob patterns relative to the vault root are supported, such as templates, notes/private/** or **/*.tmp."
+      );
 
     // Display current ignored directories
     if (ignoredDirs.length === 0) {
@@ -988,85 +1931,262 @@ class NavItemModal extends Modal {
   }
 }
 
-class TemplatePreviewModal extends Modal {
-  private content: string;
+class SiteNameModal extends Modal {
+  private title: string;
+  private value: string;
+  private onSubmit: ((name: string | null) => void) | null;
 
-  constructor(app: App, content: string) {
+  constructor(app: App, title: string, defaultName: string, onSubmit: (name: string | null) => void) {
     super(app);
-    this.content = content;
+    this.title = title;
+    this.value = defaultName;
+    this.onSubmit = onSubmit;
   }
 
   onOpen() {
     const { contentEl } = this;
-    contentEl.createEl("h3", { text: "Note template" });
-    const preEl = contentEl.createEl("pre");
-    preEl.textContent = this.content;
+    contentEl.createEl("h3", { text: this.title });
 
-    new Setting(contentEl).addButton((btn) =>
-      btn.setButtonText("Close").onClick(() => this.close())
-    );
+    new Setting(contentEl).setName("Name").addText((text) => {
+      text
+        .setPlaceholder("For example- internal")
+        .setValue(this.value)
+        .onChange((value) => {
+          this.value = value;
+        });
+      setTimeout(() => text.inputEl.focus(), 10);
+    });
+
+    new Setting(contentEl)
+      .addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()))
+      .addButton((btn) =>
+        btn
+          .setButtonText("Save")
+          .setCta()
+          .onClick(() => {
+            const name = this.value.trim();
+            if (!name) {
+              new Notice("Name is required");
+              return;
+            }
+            this.submit(name);
+            this.close();
+          })
+      );
+  }
+
+  onClose() {
+    // Closing without saving counts as cancelling
+    this.submit(null);
+    this.contentEl.empty();
+  }
+
+  private submit(name: string | null): void {
+    this.onSubmit?.(name);
+    this.onSubmit = null;
   }
 }
 
-class DeploymentSetupModal extends Modal {
-  private onComplete: () => void;
-  private vaultPath: string;
+class SiteProfileSuggestModal extends SuggestModal<SiteProfile> {
+  private siteProfiles: SiteProfiles;
+  private onChoose: (profile: SiteProfile) => void;
 
-  constructor(
-    app: App,
-    _config: LeafpressConfig | null,
-    onComplete: () => void
-  ) {
+  constructor(app: App, siteProfiles: SiteProfiles, onChoose: (profile: SiteProfile) => void) {
     super(app);
-    this.onComplete = onComplete;
-    // Get vault path
-    const adapter = this.app.vault.adapter as { basePath?: string; path?: string };
-    this.vaultPath = adapter.basePath || adapter.path || "";
+    this.siteProfiles = siteProfiles;
+    this.onChoose = onChoose;
+    this.setPlaceholder("Choose a site");
   }
 
-  private getDeployCommand(): string {
-    const configDir = this.app.vault.configDir;
-    const isWindows = process.platform === "win32";
-    if (isWindows) {
-      return `cd "${this.vaultPath}" && .\\${configDir}\\plugins\\leafpress\\bin\\leafpress.exe deploy`;
+  getSuggestions(query: string): SiteProfile[] {
+    const lower = query.toLowerCase();
+    return this.siteProfiles
+      .getProfiles()
+      .filter((profile) => profile.name.toLowerCase().includes(lower));
+  }
+
+  renderSuggestion(profile: SiteProfile, el: HTMLElement): void {
+    el.createEl("div", { text: profile.name });
+    if (profile.id === this.siteProfiles.getActive().id) {
+      el.createEl("small", { text: "Active", cls: "leafpress-muted-text" });
     }
-    return `cd "${this.vaultPath}" && ./${configDir}/plugins/leafpress/bin/leafpress deploy`;
+  }
+
+  onChooseSuggestion(profile: SiteProfile): void {
+    this.onChoose(profile);
+  }
+}
+
+class DeployTargetModal extends Modal {
+  private title: string;
+  private value: DeployTarget;
+  private original: DeployTarget | null;
+  private settingValues: Record<string, string>;
+  private others: DeployTarget[];
+  private onSubmit: ((target: DeployTarget | null) => void) | null;
+
+  constructor(
+    app: App,
+    title: string,
+    target: DeployTarget | null,
+    others: DeployTarget[],
+    onSubmit: (target: DeployTarget | null) => void
+  ) {
+    super(app);
+    this.title = title;
+    this.value = target ? { ...target } : { name: "", provider: "netlify" };
+    this.original = target;
+    this.settingValues = getDeploySettingValues(target ?? undefined);
+    this.others = others;
+    this.onSubmit = onSubmit;
   }
 
   onOpen() {
     const { contentEl } = this;
-    const fullCommand = this.getDeployCommand();
+    contentEl.createEl("h3", { text: this.title });
 
-    contentEl.createEl("h3", { text: "Deployment setup" });
-    contentEl.createEl("p", {
-      text: "Initial setup requires running a command in your terminal. Copy and paste:",
+    new Setting(contentEl).setName("Name").addText((text) => {
+      text
+        .setPlaceholder("For example- staging")
+        .setValue(this.value.name)
+        .onChange((value) => {
+          this.value.name = value;
+        });
+      setTimeout(() => text.inputEl.focus(), 10);
     });
 
-    const commandEl = contentEl.createEl("div", { cls: "leafpress-panel-section" });
-
-    commandEl.createEl("code", {
-      text: fullCommand,
-      cls: "leafpress-code-block",
+    new Setting(contentEl).setName("Provider").addDropdown((dd) => {
+      for (const [value, label] of Object.entries(PROVIDER_LABELS)) {
+        dd.addOption(value, label);
+      }
+      dd.setValue(this.value.provider);
+      dd.onChange((value) => {
+        this.value.provider = value as DeployProvider;
+        fieldsEl.empty();
+        renderDeploySettingFields(fieldsEl, this.value.provider, this.settingValues);
+      });
     });
 
-    const copyBtn = commandEl.createEl("button", { text: "Copy command" });
-    copyBtn.addEventListener("click", () => {
-      void navigator.clipboard.writeText(fullCommand);
-      copyBtn.textContent = "Copied!";
-      setTimeout(() => {
-        copyBtn.textContent = "Copy command";
-      }, 2000);
-    });
+    new Setting(contentEl)
+      .setName("Base URL")
+      .setDesc("Address of this target's site, used for links when building for it. Leave empty to use the site's base URL.")
+      .addText((text) =>
+        text
+          .setPlaceholder("https://staging.example.com")
+          .setValue(this.value.baseURL ?? "")
+          .onChange((value) => {
+            this.value.baseURL = value.trim() || undefined;
+          })
+      );
 
-    contentEl.createEl("p", {
-      text: "This will guide you through authentication and save your configuration.",
-    });
+    // Provider settings, redrawn when the provider changes
+    const fieldsEl = contentEl.createEl("div");
+    renderDeploySettingFields(fieldsEl, this.value.provider, this.settingValues);
+
+    new Setting(contentEl)
+      .addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()))
+      .addButton((btn) =>
+        btn
+          .setButtonText("Save")
+          .setCta()
+          .onClick(() => {
+            const target = this.validate();
+            if (!target) return;
+            this.submit(target);
+            this.close();
+          })
+      );
+  }
+
+  onClose() {
+    // Closing without saving counts as cancelling
+    this.submit(null);
+    this.contentEl.empty();
+  }
+
+  private validate(): DeployTarget | null {
+    const name = this.value.name.trim();
+    if (!name) {
+      new Notice("Name is required");
+      return null;
+    }
+    const key = getTargetKey(name);
+    if (key === getTargetKey(PRODUCTION_LABEL) || this.others.some((other) => getTargetKey(other.name) === key)) {
+      new Notice(`A target named "${name}" already exists`);
+      return null;
+    }
+
+    const { provider } = this.value;
+    const errors = validateDeploySettingValues(provider, this.settingValues);
+    if (errors.length > 0) {
+      new Notice(errors.join("\n"));
+      return null;
+    }
+    const existing = this.original?.provider === provider ? this.original.settings : {};
+    const settings = toDeploySettings(provider, this.settingValues, existing);
+
+    const target: DeployTarget = { name, provider, settings };
+    if (this.value.baseURL) target.baseURL = this.value.baseURL;
+    return target;
+  }
+
+  private submit(target: DeployTarget | null): void {
+    this.onSubmit?.(target);
+    this.onSubmit = null;
+  }
+}
+
+interface DeployTargetChoice {
+  name: string;
+  // Unset for production
+  target?: DeployTarget;
+}
+
+class DeployTargetSuggestModal extends SuggestModal<DeployTargetChoice> {
+  private choices: DeployTargetChoice[];
+  private onChoose: (choice: DeployTargetChoice) => void;
+
+  constructor(app: App, choices: DeployTargetChoice[], onChoose: (choice: DeployTargetChoice) => void) {
+    super(app);
+    this.choices = choices;
+    this.onChoose = onChoose;
+    this.setPlaceholder("Choose a deploy target");
+  }
+
+  getSuggestions(query: string): DeployTargetChoice[] {
+    const lower = query.toLowerCase();
+    return this.choices.filter((choice) => choice.name.toLowerCase().includes(lower));
+  }
+
+  renderSuggestion(choice: DeployTargetChoice, el: HTMLElement): void {
+    el.createEl("div", { text: choice.name });
+    if (choice.target) {
+      el.createEl("small", { text: getProviderLabel(choice.target.provider), cls: "leafpress-muted-text" });
+    }
+  }
+
+  onChooseSuggestion(choice: DeployTargetChoice): void {
+    this.onChoose(choice);
+  }
+}
+
+class TemplatePreviewModal extends Modal {
+  private content: string;
+
+  constructor(app: App, content: string) {
+    super(app);
+    this.content = content;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl("h3", { text: "Note template" });
+    const preEl = contentEl.createEl("pre");
+    preEl.textContent = this.content;
 
     new Setting(contentEl).addButton((btn) =>
-      btn.setButtonText("Close").onClick(() => {
-        this.close();
-        this.onComplete();
-      })
+      btn.setButtonText("Close").onClick(() => this.close())
     );
   }
 }
+
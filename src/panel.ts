@@ -1,9 +1,22 @@
-import {ItemView, WorkspaceLeaf, Notice, EventRef} from "obsidian";
-import { ChildProcess } from "child_process";
-import * as crypto from "crypto";
-import { BinaryManager } from "./cli/manager";
-import { readLeafpressConfig } from "./utils/config";
-import { openInBrowser, isPortInUse, killPortProcess } from "./utils/platform";
+import {ItemView, WorkspaceLeaf, Notice, EventRef, Modal, Setting} from "obsidian";
+import { PreviewServer } from "./cli/preview-server";
+import { CommandHandlers } from "./cli/handlers";
+import { readLeafpressConfig, getProviderLabel } from "./utils/config";
+import { openInBrowser } from "./utils/platform";
+import {
+  readDeployState,
+  getPendingFiles,
+  DEPLOY_STATE_FILE,
+  PendingFile,
+} from "./utils/deploy-state";
+import { readDeployHistory, DeployHistoryEntry } from "./utils/deploy-history";
+import { checkBuildFreshness, isBuildStale } from "./utils/build-state";
+import { getTargetKey, PRODUCTION_LABEL } from "./utils/deploy-targets";
+import { BuildWatcher } from "./build-watch";
+import { SiteProfiles } from "./site-profiles";
+import { Credentials, describeCredential, isCredentialProblem } from "./credentials";
+import { PendingDiffModal } from "./diff-modal";
+import { LeafpressPluginSettings } from "./settings";
 
 interface VaultAdapter {
   basePath?: string;
@@ -13,19 +26,6 @@ interface VaultAdapter {
   list(path: string): Promise<{ files: string[]; folders: string[] }>;
 }
 
-interface DeployState {
-  lastDeploy?: {
-    timestamp: string;
-    url: string;
-    sourceFiles?: Record<string, string>;
-  };
-}
-
-interface PendingFile {
-  status: string;
-  file: string;
-}
-
 interface DeploymentStatus {
   pendingCount: number;
   lastDeploy: string;
@@ -36,16 +36,40 @@ interface DeploymentStatus {
 export const VIEW_TYPE_LEAFPRESS = "leafpress-view";
 
 export class LeafpressPanel extends ItemView {
-  private binaryManager: BinaryManager | null = null;
+  private previewServer: PreviewServer;
+  private commandHandlers: CommandHandlers;
+  private buildWatcher: BuildWatcher;
+  private siteProfiles: SiteProfiles;
+  private credentials: Credentials;
+  private settings: LeafpressPluginSettings;
   private vaultPath: string | null = null;
   private fileChangeListener: EventRef | null = null;
-  private serverProcess: ChildProcess | null = null;
-  private isStartingServer = false;
+  private unsubscribeBusy: (() => void) | null = null;
+  private unsubscribeWatch: (() => void) | null = null;
+  private unsubscribeServer: (() => void) | null = null;
+  private unsubscribeProfiles: (() => void) | null = null;
+  private unsubscribeCredentials: (() => void) | null = null;
+  private showAllPending = false;
+  private selectedPending = new Set<string>();
+  private showHistory = false;
   private activeIntervals: NodeJS.Timeout[] = [];
 
-  constructor(leaf: WorkspaceLeaf, binaryManager?: BinaryManager) {
+  constructor(
+    leaf: WorkspaceLeaf,
+    previewServer: PreviewServer,
+    commandHandlers: CommandHandlers,
+    buildWatcher: BuildWatcher,
+    siteProfiles: SiteProfiles,
+    credentials: Credentials,
+    settings: LeafpressPluginSettings
+  ) {
     super(leaf);
-    this.binaryManager = binaryManager || null;
+    this.previewServer = previewServer;
+    this.commandHandlers = commandHandlers;
+    this.buildWatcher = buildWatcher;
+    this.siteProfiles = siteProfiles;
+    this.credentials = credentials;
+    this.settings = settings;
   }
 
   private getVaultPath(): string {
@@ -96,7 +120,7 @@ export class LeafpressPanel extends ItemView {
           // Refresh when markdown files, deployment state, or _site directory changes
           if (
             file.path.endsWith(".md") ||
-            file.name === ".leafpress-deploy-state.json" ||
+            file.name === DEPLOY_STATE_FILE ||
             file.path.startsWith("_site/")
           ) {
             void this.renderPanel();
@@ -106,6 +130,42 @@ export class LeafpressPanel extends ItemView {
         this.registerEvent(this.fileChangeListener);
       }
 
+      // Re-render when a build or deploy starts or finishes
+      if (!this.unsubscribeBusy) {
+        this.unsubscribeBusy = this.commandHandlers.onBusyChange(() => {
+          void this.renderPanel();
+        });
+      }
+
+      // Re-render when the preview server starts or stops, including from commands
+      if (!this.unsubscribeServer) {
+        this.unsubscribeServer = this.previewServer.onChange(() => {
+          void this.renderPanel();
+        });
+      }
+
+      // Re-render when watch mode turns on or off, or a watch build is queued
+      if (!this.unsubscribeWatch) {
+        this.unsubscribeWatch = this.buildWatcher.onChange(() => {
+          void this.renderPanel();
+        });
+      }
+
+      // Re-render when another site is selected
+      if (!this.unsubscribeProfiles) {
+        this.unsubscribeProfiles = this.siteProfiles.onChange(() => {
+          this.selectedPending.clear();
+          void this.renderPanel();
+        });
+      }
+
+      // Re-render when a token is saved, tested or rejected
+      if (!this.unsubscribeCredentials) {
+        this.unsubscribeCredentials = this.credentials.onChange(() => {
+          void this.renderPanel();
+        });
+      }
+
       await this.renderPanel();
     } catch (err) {
       console.error("[leafpress] Error in panel onOpen:", err);
@@ -124,11 +184,29 @@ export class LeafpressPanel extends ItemView {
 
       const content = container.createEl("div", { cls: "leafpress-panel-content" });
 
+      // Site switcher, once the vault publishes more than one site
+      const profiles = this.siteProfiles.getProfiles();
+      if (profiles.length > 1) {
+        const siteStatus = content.createEl("p");
+        siteStatus.createEl("strong", { text: "Site: " });
+        const siteSelect = siteStatus.createEl("select", { cls: "dropdown" });
+        for (const profile of profiles) {
+          siteSelect.createEl("option", { text: profile.name, attr: { value: profile.id } });
+        }
+        siteSelect.value = this.siteProfiles.getActive().id;
+        siteSelect.disabled = this.commandHandlers.isBusy();
+        siteSelect.addEventListener("change", () => {
+          siteSelect.disabled = true;
+          void this.commandHandlers.switchProfile(siteSelect.value).then(() => this.renderPanel());
+        });
+      }
+
       // Check server status
+      const serverPort = await this.getServerPort();
       const serverRunning = await this.isServerRunning();
       const serverStatus = content.createEl("p");
       serverStatus.createEl("strong", { text: "Server: " });
-      serverStatus.append(serverRunning ? "🟢 Running" : "⚪ Stopped");
+      serverStatus.append(serverRunning ? `🟢 Running on port ${serverPort}` : "⚪ Stopped");
 
       // Count pages built
       const pageCount = await this.countBuiltPages();
@@ -136,6 +214,49 @@ export class LeafpressPanel extends ItemView {
       pageStatus.createEl("strong", { text: "Pages built: " });
       pageStatus.append(pageCount.toString());
 
+      const freshness = await checkBuildFreshness(this.app);
+      if (pageCount > 0 && isBuildStale(freshness)) {
+        pageStatus.append(" · ");
+        const staleEl = pageStatus.createEl("span", {
+          text: "Build is out of date",
+          cls: "leafpress-warning-text",
+        });
+        const changed = freshness.changedSince;
+        staleEl.title =
+          `Changed since the last build: ${changed.slice(0, 10).join(", ")}` +
+          (changed.length > 10 ? ` and ${changed.length - 10} more` : "");
+      }
+
+      // Watch mode status and the outcome of the last watch build
+      if (this.buildWatcher.isEnabled()) {
+        const watchStatus = content.createEl("p");
+        watchStatus.createEl("strong", { text: "Watch: " });
+        const state = this.buildWatcher.getState();
+        if (state === "building") {
+          watchStatus.append("Building...");
+        } else if (state === "pending") {
+          watchStatus.append("Changes detected, building soon");
+        } else {
+          watchStatus.append("Watching for changes");
+        }
+
+        const lastResult = this.buildWatcher.getLastResult();
+        if (lastResult) {
+          const resultEl = content.createEl("p", { cls: "leafpress-deploy-info" });
+          resultEl.createEl("strong", { text: "Last watch build: " });
+          let outcome = "✗ Failed";
+          if (lastResult.cancelled) {
+            outcome = "Cancelled";
+          } else if (lastResult.success) {
+            outcome = lastResult.problems > 0 ? `✓ ${lastResult.problems} problem(s)` : "✓ Succeeded";
+          }
+          resultEl.append(`${outcome} · ${this.formatTimeAgo(new Date(lastResult.finishedAt))}`);
+          if (!lastResult.success && !lastResult.cancelled) {
+            resultEl.addClass("leafpress-warning-text");
+          }
+        }
+      }
+
       // Load config for deployment info
       const config = await readLeafpressConfig(this.app);
       const deploymentConfigured = !!config?.deploy?.provider;
@@ -146,15 +267,40 @@ export class LeafpressPanel extends ItemView {
         // Get deployment status
         statusInfo = await this.getDeploymentStatus();
 
+        // Drop selections that are no longer pending
+        const pendingPaths = new Set(statusInfo?.pendingFiles.map((file) => file.file));
+        for (const file of this.selectedPending) {
+          if (!pendingPaths.has(file)) this.selectedPending.delete(file);
+        }
+
         const deployStatus = content.createEl("p");
         deployStatus.createEl("strong", { text: "Deployment: " });
-        const provider = config.deploy.provider;
-        const providerLabel: Record<string, string> = {
-          "github-pages": "GitHub Pages",
-          vercel: "Vercel",
-          netlify: "Netlify",
-        };
-        deployStatus.append(providerLabel[provider] || provider);
+        deployStatus.append(getProviderLabel(config.deploy.provider));
+
+        // Tokens the CLI gets from the plugin
+        if (this.credentials.has(config.deploy.provider)) {
+          const provider = config.deploy.provider;
+          const tokenStatus = this.credentials.getStatus(provider);
+          const tokenEl = content.createEl("p", {
+            cls:
+              isCredentialProblem(tokenStatus) || tokenStatus.state === "expiring"
+                ? "leafpress-warning-text"
+                : "leafpress-deploy-info",
+          });
+          tokenEl.createEl("strong", { text: "Token: " });
+          tokenEl.append(`${describeCredential(tokenStatus)} `);
+          if (this.credentials.canTest(provider)) {
+            const testBtn = tokenEl.createEl("button", { text: "Test", cls: "leafpress-history-btn" });
+            testBtn.addEventListener("click", () => {
+              testBtn.disabled = true;
+              testBtn.textContent = "Testing...";
+              void this.credentials.test(provider).then(({ ok, message }) => {
+                new Notice(ok ? message : `Token check failed: ${message}`);
+                void this.renderPanel();
+              });
+            });
+          }
+        }
 
         if (statusInfo?.lastDeploy) {
           const lastDeployEl = content.createEl("p", { cls: "leafpress-deploy-info" });
@@ -170,6 +316,12 @@ export class LeafpressPanel extends ItemView {
         }
       }
 
+      const busy = this.commandHandlers.isBusy();
+
+      if (config?.targets && config.targets.length > 0) {
+        await this.renderTargets(content, busy);
+      }
+
       // Add action buttons
       const buttonContainer = content.createEl("div", { cls: "leafpress-panel-buttons" });
 
@@ -207,7 +359,8 @@ export class LeafpressPanel extends ItemView {
       previewBtn.disabled = !serverRunning;
       previewBtn.title = serverRunning ? "Open preview in browser" : "Server must be running to open preview";
       previewBtn.addEventListener("click", () => {
-        openInBrowser("http://localhost:3000");
+        this.previewServer.touch();
+        openInBrowser(`http://localhost:${serverPort}`);
       });
 
       // Deploy button (if configured)
@@ -224,7 +377,8 @@ export class LeafpressPanel extends ItemView {
           });
           const fileList = pendingSummary.createEl("ul", { cls: "leafpress-file-list" });
 
-          statusInfo.pendingFiles.slice(0, 5).forEach((file: PendingFile) => {
+          const visibleCount = this.showAllPending ? statusInfo.pendingFiles.length : 5;
+          statusInfo.pendingFiles.slice(0, visibleCount).forEach((file: PendingFile) => {
             const li = fileList.createEl("li", { cls: "leafpress-file-item" });
             let icon = "?";
             if (file.status === "added") {
@@ -234,19 +388,46 @@ export class LeafpressPanel extends ItemView {
             } else if (file.status === "deleted") {
               icon = "−";
             }
-            li.textContent = `${icon} ${file.file}`;
+            const checkbox = li.createEl("input", {
+              attr: { type: "checkbox" },
+              cls: "leafpress-pending-checkbox",
+            });
+            checkbox.checked = this.selectedPending.has(file.file);
+            checkbox.title = "Include in a selective deploy";
+            checkbox.addEventListener("change", () => {
+              if (checkbox.checked) {
+                this.selectedPending.add(file.file);
+              } else {
+                this.selectedPending.delete(file.file);
+              }
+              void this.renderPanel();
+            });
+
+            const label = li.createEl("span", {
+              text: `${icon} ${file.file}`,
+              cls: "is-clickable",
+            });
+            label.title = "Show changes since last deploy";
+            label.addEventListener("click", () => {
+              new PendingDiffModal(this.app, file).open();
+            });
           });
 
-          if (statusInfo.pendingFiles.length > 5) {
-            const more = fileList.createEl("li", { cls: "leafpress-more-files" });
-            more.textContent = `... and ${statusInfo.pendingFiles.length - 5} more`;
+          if (statusInfo.pendingFiles.length > visibleCount) {
+            const more = fileList.createEl("li", { cls: "leafpress-more-files is-clickable" });
+            more.textContent = `... and ${statusInfo.pendingFiles.length - visibleCount} more`;
+            more.addEventListener("click", () => {
+              this.showAllPending = true;
+              void this.renderPanel();
+            });
           }
         }
 
         deployBtn = buttonContainer.createEl("button", {
-          text: "Deploy",
+          text: busy ? "Running..." : "Deploy",
           cls: "leafpress-deploy-btn",
         });
+        deployBtn.disabled = busy;
         deployBtn.addEventListener("click", () => {
           if (!deployBtn) return;
           deployBtn.disabled = true;
@@ -254,25 +435,31 @@ export class LeafpressPanel extends ItemView {
 
           void (async () => {
             try {
-              if (this.binaryManager) {
-                await this.binaryManager.ensureBinary();
-                const result = await this.binaryManager.execCommand([
-                  "deploy",
-                  "--skip-build",
-                ]);
-
-                if (result.success) {
-                  const urlMatch = result.stdout.match(/https?:\/\/[^\s]+/);
-                  const url = urlMatch ? urlMatch[0] : "Deployment successful";
-                  new Notice(`Deployed: ${url}`);
-                } else {
-                  new Notice("Deployment failed");
-                  console.error(result.stderr);
-                }
-              }
-            } catch (err) {
-              new Notice(`✗ Error: ${err}`);
-              console.error(err);
+              await this.commandHandlers.deploy();
+            } finally {
+              await this.renderPanel();
+            }
+          })();
+        });
+      }
+
+      // Deploy only the checked pending changes
+      if (deploymentConfigured && this.selectedPending.size > 0) {
+        const selected = Array.from(this.selectedPending);
+        const deploySelectedBtn = buttonContainer.createEl("button", {
+          text: `Deploy selected (${selected.length})`,
+          cls: "leafpress-panel-btn",
+        });
+        deploySelectedBtn.disabled = busy;
+        deploySelectedBtn.title = "Deploy only the checked changes";
+        deploySelectedBtn.addEventListener("click", () => {
+          deploySelectedBtn.disabled = true;
+          deploySelectedBtn.textContent = "Deploying...";
+
+          void (async () => {
+            try {
+              await this.commandHandlers.deploySelected(selected);
+              this.selectedPending.clear();
             } finally {
               await this.renderPanel();
             }
@@ -280,6 +467,56 @@ export class LeafpressPanel extends ItemView {
         });
       }
 
+      // First-time deployment setup
+      if (config && !deploymentConfigured) {
+        const setupBtn = buttonContainer.createEl("button", {
+          text: "Set up deployment",
+          cls: "leafpress-panel-btn",
+        });
+        setupBtn.disabled = busy;
+        setupBtn.addEventListener("click", () => {
+          this.commandHandlers.openDeploySetup(() => {
+            void this.renderPanel();
+          });
+        });
+      }
+
+      // Cancel button while a build or deploy is running
+      if (busy) {
+        const cancelBtn = buttonContainer.createEl("button", {
+          text: "Cancel",
+          cls: "leafpress-panel-btn mod-warning",
+        });
+        cancelBtn.addEventListener("click", () => {
+          cancelBtn.disabled = true;
+          cancelBtn.textContent = "Cancelling...";
+          this.commandHandlers.cancel();
+        });
+      }
+
+      // Watch mode toggle
+      const watchBtn = buttonContainer.createEl("button", {
+        text: this.buildWatcher.isEnabled() ? "Stop watching" : "Watch",
+        cls: "leafpress-panel-btn",
+      });
+      watchBtn.title = "Rebuild the site when notes change";
+      watchBtn.addEventListener("click", () => {
+        void this.buildWatcher.setEnabled(!this.buildWatcher.isEnabled());
+      });
+
+      // Build log button
+      const logBtn = buttonContainer.createEl("button", {
+        text: "Build log",
+        cls: "leafpress-panel-btn",
+      });
+      logBtn.addEventListener("click", () => {
+        void this.commandHandlers.showBuildLog();
+      });
+
+      if (deploymentConfigured) {
+        await this.renderDeployHistory(content, busy);
+      }
+
     } catch (err) {
       console.error("[leafpress] Error rendering panel:", err);
       const container = this.containerEl.children[1];
@@ -288,16 +525,21 @@ export class LeafpressPanel extends ItemView {
     }
   }
 
-  private isServerRunning(): Promise<boolean> {
-    return isPortInUse(3000);
+  private async getServerPort(): Promise<number> {
+    return this.previewServer.getPort();
+  }
+
+  private async isServerRunning(): Promise<boolean> {
+    return this.previewServer.isRunning();
   }
 
   private async countBuiltPages(): Promise<number> {
     try {
       const vaultAdapter = (this.app.vault.adapter);
-      const sitePath = "_site";
+      const config = await readLeafpressConfig(this.app);
+      const sitePath = config?.outputDir || "_site";
 
-      // Recursively count all HTML files in _site directory
+      // Recursively count all HTML files in the output directory
       const countHtmlFiles = async (dir: string): Promise<number> => {
         try {
           const contents = await vaultAdapter.list(dir);
@@ -326,63 +568,18 @@ export class LeafpressPanel extends ItemView {
   }
 
   private async startServer(): Promise<void> {
-    if (!this.binaryManager) {
-      return;
-    }
-
-    // Prevent race condition from multiple rapid clicks
-    if (this.isStartingServer) {
-      return;
-    }
-
-    this.isStartingServer = true;
-
     try {
-      // Stop existing server if we have a reference
-      if (this.serverProcess) {
-        this.binaryManager.stopServerProcess(this.serverProcess);
-        this.serverProcess = null;
-        await new Promise((r) => setTimeout(r, 500));
-      }
-
-      // Start new server
-      const result = await this.binaryManager.startServerProcess();
-
+      const result = await this.previewServer.start();
       if (result.error) {
         new Notice(`Failed to start server: ${result.error}`);
-        return;
-      }
-
-      this.serverProcess = result.process;
-
-      if (this.serverProcess) {
-        // Handle unexpected server exit
-        this.serverProcess.on("exit", () => {
-          this.serverProcess = null;
-          void this.renderPanel();
-        });
       }
     } catch (err) {
       new Notice(`Error starting server: ${err}`);
-    } finally {
-      this.isStartingServer = false;
     }
   }
 
   private async stopServer(): Promise<void> {
-    try {
-      if (this.serverProcess && this.binaryManager) {
-        this.binaryManager.stopServerProcess(this.serverProcess);
-        this.serverProcess = null;
-      } else {
-        // Fallback: kill by port if we lost the process reference
-        await killPortProcess(3000);
-      }
-      // Wait for process to actually terminate
-      await new Promise((resolve) => setTimeout(resolve, 500));
-    } catch (err) {
-      console.error("[leafpress] Error stopping server:", err);
-    }
+    await this.previewServer.stop();
   }
 
   private waitForServerReady(timeoutMs: number): Promise<void> {
@@ -423,106 +620,208 @@ export class LeafpressPanel extends ItemView {
     });
   }
 
-  private async getDeploymentStatus(): Promise<DeploymentStatus | null> {
-    try {
-      const stateFilePath = ".leafpress-deploy-state.json";
-      const configDir = this.app.vault.configDir;
+  private formatTimeAgo(time: Date): string {
+    const diffMs = Date.now() - time.getTime();
+    const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
+    const diffMins = Math.floor((diffMs % (1000 * 60 * 60)) / (1000 * 60));
+
+    if (diffHours > 24) {
+      return `${Math.floor(diffHours / 24)}d ago`;
+    } else if (diffHours > 0) {
+      return `${diffHours}h ago`;
+    } else if (diffMins > 0) {
+      return `${diffMins}m ago`;
+    }
+    return "Just now";
+  }
 
-      // Read deployment state file
-      let stateContent: string;
-      try {
-        stateContent = await this.app.vault.adapter.read(stateFilePath);
-      } catch {
-        return null;
+  /**
+   * Pending changes per deploy target, with deploy and promote actions for
+   * the named targets
+   */
+  private async renderTargets(content: HTMLElement, busy: boolean): Promise<void> {
+    const section = content.createEl("div", { cls: "leafpress-targets" });
+    section.createEl("strong", { text: "Targets" });
+    const list = section.createEl("ul", { cls: "leafpress-targets-list" });
+
+    const production = (await readLeafpressConfig(this.app))?.deploy;
+    for (const { target, pending } of await this.commandHandlers.getTargetPendingCounts()) {
+      const item = list.createEl("li", { cls: "leafpress-targets-item" });
+      const deploy = target ?? production;
+      item.createEl("span", {
+        text: `${target?.name ?? PRODUCTION_LABEL} · ${deploy ? getProviderLabel(deploy.provider) : "Not configured"} · `,
+      });
+      item.createEl("span", {
+        text: pending === 0 ? "Up to date" : `${pending} pending`,
+        cls: pending === 0 ? "leafpress-muted-text" : "leafpress-warning-text",
+      });
+
+      // Production is deployed with the main deploy button
+      if (!target) continue;
+
+      const deployBtn = item.createEl("button", { text: "Deploy", cls: "leafpress-history-btn" });
+      deployBtn.disabled = busy;
+      deployBtn.addEventListener("click", () => {
+        deployBtn.disabled = true;
+        void this.commandHandlers.deployToTarget(target.name).finally(() => this.renderPanel());
+      });
+
+      const promoteBtn = item.createEl("button", { text: "Promote", cls: "leafpress-history-btn" });
+      promoteBtn.disabled = busy;
+      promoteBtn.title = `Deploy what was last deployed to ${target.name} to ${PRODUCTION_LABEL.toLowerCase()}`;
+      promoteBtn.addEventListener("click", () => {
+        promoteBtn.disabled = true;
+        void this.commandHandlers.promote(target.name).finally(() => this.renderPanel());
+      });
+    }
+  }
+
+  /**
+   * Timeline of recent deploys, newest first, with a redeploy action on
+   * every earlier version
+   */
+  private async renderDeployHistory(content: HTMLElement, busy: boolean): Promise<void> {
+    const history = await readDeployHistory(this.app);
+    if (history.length === 0) return;
+
+    const section = content.createEl("div", { cls: "leafpress-history" });
+    const header = section.createEl("div", {
+      text: `${this.showHistory ? "▾" : "▸"} Deploy history (${history.length})`,
+      cls: "leafpress-history-header is-clickable",
+    });
+    header.addEventListener("click", () => {
+      this.showHistory = !this.showHistory;
+      void this.renderPanel();
+    });
+    if (!this.showHistory) return;
+
+    const list = section.createEl("ul", { cls: "leafpress-history-list" });
+    const targetKey = (entry: DeployHistoryEntry) =>
+      entry.target === undefined ? "" : getTargetKey(entry.target);
+    history.forEach((entry, index) => {
+      const item = list.createEl("li", { cls: "leafpress-history-item" });
+      // The newest deploy to each target is what's live there
+      const isCurrent = history.findIndex((other) => targetKey(other) === targetKey(entry)) === index;
+      if (isCurrent) item.addClass("is-current");
+
+      const time = new Date(entry.timestamp);
+      const title = item.createEl("div", { cls: "leafpress-history-title" });
+      title.createEl("strong", { text: this.formatTimeAgo(time) });
+      title.title = time.toLocaleString();
+      if (entry.target !== undefined) title.append(` · ${entry.target}`);
+      if (isCurrent) title.append(" · live");
+      if (entry.redeployOf) {
+        const original = history.find((other) => other.id === entry.redeployOf);
+        title.append(
+          original
+            ? ` · redeploy of ${new Date(original.timestamp).toLocaleString()}`
+            : " · redeploy"
+        );
       }
 
-      let deployState: DeployState;
-      try {
-        deployState = JSON.parse(stateContent) as DeployState;
-      } catch (parseErr) {
-        console.error("[leafpress] Failed to parse deployment state JSON:", parseErr);
-        return null;
+      const details = [
+        getProviderLabel(entry.provider),
+        `${entry.changedFiles.length} file(s) changed`,
+        `${(entry.durationMs / 1000).toFixed(1)}s`,
+      ];
+      if (entry.cliVersion) details.push(`CLI ${entry.cliVersion}`);
+      item.createEl("div", {
+        text: details.filter(Boolean).join(" · "),
+        cls: "leafpress-history-details",
+      });
+
+      if (entry.changedFiles.length > 0) {
+        const files = entry.changedFiles.slice(0, 5).map((change) => change.file);
+        const more = entry.changedFiles.length - files.length;
+        item.createEl("div", {
+          text: more > 0 ? `${files.join(", ")} and ${more} more` : files.join(", "),
+          cls: "leafpress-history-files",
+        });
+      }
+
+      if (entry.url) {
+        const link = item.createEl("a", {
+          text: entry.url,
+          href: entry.url,
+          cls: "leafpress-link",
+        });
+        link.addEventListener("click", (e) => {
+          e.preventDefault();
+          openInBrowser(entry.url);
+        });
+      }
+
+      if (!isCurrent) {
+        const redeployBtn = item.createEl("button", {
+          text: "Redeploy this version",
+          cls: "leafpress-history-btn",
+        });
+        redeployBtn.disabled = busy;
+        redeployBtn.title = entry.hasSiteSnapshot
+          ? "Publish the saved site from this deploy"
+          : "Rebuild this version from its notes and publish it";
+        redeployBtn.addEventListener("click", () => {
+          void this.confirmRedeploy(entry, time);
+        });
       }
+    });
+  }
 
-      const lastDeploy = deployState.lastDeploy;
+  private async confirmRedeploy(entry: DeployHistoryEntry, time: Date): Promise<void> {
+    const confirmed = await new Promise<boolean>((resolve) => {
+      const modal = new Modal(this.app);
+      new Setting(modal.contentEl).setName("Redeploy this version?").setHeading();
+      modal.contentEl.createEl("p", {
+        text: `The site as deployed on ${time.toLocaleString()} will replace the live site${
+          entry.target !== undefined ? ` on ${entry.target}` : ""
+        }. Your notes are not changed.`,
+      });
+
+      new Setting(modal.contentEl)
+        .addButton((btn) =>
+          btn.setButtonText("Cancel").onClick(() => {
+            resolve(false);
+            modal.close();
+          })
+        )
+        .addButton((btn) =>
+          btn
+            .setButtonText("Redeploy")
+            .setWarning()
+            .onClick(() => {
+              resolve(true);
+              modal.close();
+            })
+        );
+
+      modal.open();
+    });
+
+    if (!confirmed) return;
+    try {
+      await this.commandHandlers.redeploy(entry.id);
+    } finally {
+      await this.renderPanel();
+    }
+  }
+
+  private async getDeploymentStatus(): Promise<DeploymentStatus | null> {
+    try {
+      // Read deployment state file
+      const deployState = await readDeployState(this.app);
+      const lastDeploy = deployState?.lastDeploy;
 
       if (!lastDeploy) {
         return null;
       }
 
       // Format last deploy time
-      const deployTime = new Date(lastDeploy.timestamp);
-      const now = new Date();
-      const diffMs = now.getTime() - deployTime.getTime();
-      const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
-      const diffMins = Math.floor((diffMs % (1000 * 60 * 60)) / (1000 * 60));
-
-      let lastDeployStr = "";
-      if (diffHours > 24) {
-        lastDeployStr = `${Math.floor(diffHours / 24)}d ago`;
-      } else if (diffHours > 0) {
-        lastDeployStr = `${diffHours}h ago`;
-      } else if (diffMins > 0) {
-        lastDeployStr = `${diffMins}m ago`;
-      } else {
-        lastDeployStr = "Just now";
-      }
-
-      // Load config to get ignore patterns
-      const config = await readLeafpressConfig(this.app);
-      const ignorePatterns = config?.ignore || [];
-      const defaultIgnore = [".DS_Store", "Thumbs.db", configDir, "_site"];
-
-      const shouldIgnore = (filePath: string): boolean => {
-        const normalized = filePath.replace(/^\//, "");
-        // Check default ignores
-        for (const pattern of defaultIgnore) {
-          if (normalized.startsWith(pattern)) return true;
-        }
-        // Check config ignores
-        for (const pattern of ignorePatterns) {
-          if (normalized.includes(pattern)) return true;
-        }
-        return false;
-      };
+      const lastDeployStr = this.formatTimeAgo(new Date(lastDeploy.timestamp));
 
       // Compare source files with deployed state
-      const pendingFiles: PendingFile[] = [];
-
+      let pendingFiles: PendingFile[] = [];
       try {
-        // Get current source files and their hashes
-        const currentSourceFiles = await this.getSourceFilesWithHashes();
-        const deployedSourceFiles = lastDeploy.sourceFiles || {};
-
-        // Find modified, added files
-        for (const [file, hash] of Object.entries(currentSourceFiles)) {
-          if (shouldIgnore(file)) continue;
-
-          const deployedHash = deployedSourceFiles[file];
-          if (!deployedHash) {
-            pendingFiles.push({
-              status: "added",
-              file: file.replace(/^\//, ""),
-            });
-          } else if (deployedHash !== hash) {
-            pendingFiles.push({
-              status: "modified",
-              file: file.replace(/^\//, ""),
-            });
-          }
-        }
-
-        // Find deleted files
-        for (const file of Object.keys(deployedSourceFiles)) {
-          if (shouldIgnore(file)) continue;
-
-          if (!currentSourceFiles[file]) {
-            pendingFiles.push({
-              status: "deleted",
-              file: file.replace(/^\//, ""),
-            });
-          }
-        }
+        pendingFiles = await getPendingFiles(this.app, lastDeploy.sourceFiles || {});
       } catch {
         // Could not scan source files
       }
@@ -539,103 +838,6 @@ export class LeafpressPanel extends ItemView {
     }
   }
 
-  private async getSourceFilesWithHashes(): Promise<Record<string, string>> {
-    const files: Record<string, string> = {};
-    const configDir = this.app.vault.configDir;
-
-    // Load config to get ignore patterns and output directory
-    const config = await readLeafpressConfig(this.app);
-    const ignorePatterns = config?.ignore || [];
-    const outputDir = config?.outputDir || "_site";
-
-    // Reserved paths (matching backend logic from leafpress CLI)
-    const reservedPaths: Record<string, boolean> = {
-      "leafpress.json": true,
-      "style.css": true,
-      "static": true,
-      "_site": true,
-      ".leafpress": true,
-      ".git": true,
-      ".gitignore": true,
-      [configDir]: true,
-      "node_modules": true,
-      "docs": true,
-    };
-
-    // Files to skip (matching backend)
-    const skipFiles: Record<string, boolean> = {
-      ".leafpress-deploy-state.json": true,
-      ".DS_Store": true,
-      "Thumbs.db": true,
-    };
-
-    // Add output directory to reserved paths
-    reservedPaths[outputDir] = true;
-
-    const shouldSkipDir = (dirName: string): boolean => {
-      // Skip hidden directories
-      if (dirName.startsWith(".")) return true;
-      // Skip reserved paths
-      if (reservedPaths[dirName]) return true;
-      // Skip user-configured ignore patterns
-      for (const pattern of ignorePatterns) {
-        if (dirName === pattern) return true;
-      }
-      return false;
-    };
-
-    const shouldSkipFile = (fileName: string): boolean => {
-      // Skip hidden files
-      if (fileName.startsWith(".")) return true;
-      // Skip specific files
-      if (skipFiles[fileName]) return true;
-      return false;
-    };
-
-    // Get all markdown files from vault
-    const markdownFiles = this.app.vault.getMarkdownFiles();
-
-    for (const file of markdownFiles) {
-      const filePath = file.path;
-      const pathParts = filePath.split("/");
-      const fileName = pathParts[pathParts.length - 1];
-      const topLevelDir = pathParts[0];
-
-      // Skip if in reserved/ignored directory
-      if (pathParts.length > 1 && shouldSkipDir(topLevelDir)) {
-        continue;
-      }
-
-      // Skip ignored files
-      if (shouldSkipFile(fileName)) {
-        continue;
-      }
-
-      try {
-        const content = await this.app.vault.cachedRead(file);
-        const hash = this.sha1Hash(content);
-        files[`/${filePath}`] = hash;
-      } catch {
-        // Error reading file
-      }
-    }
-
-    // Also include leafpress.json for tracking config changes
-    try {
-      const configContent = await this.app.vault.adapter.read("leafpress.json");
-      files["/leafpress.json"] = this.sha1Hash(configContent);
-    } catch {
-      // Config might not exist
-    }
-
-    return files;
-  }
-
-  private sha1Hash(content: string): string {
-    // Use SHA1 to match the backend (leafpress CLI)
-    return crypto.createHash("sha1").update(content).digest("hex");
-  }
-
   private async getAllFilesInDir(dir: string): Promise<string[]> {
     const files: string[] = [];
 
@@ -674,6 +876,16 @@ export class LeafpressPanel extends ItemView {
   }
 
   onClose(): Promise<void> {
+    this.unsubscribeBusy?.();
+    this.unsubscribeBusy = null;
+    this.unsubscribeWatch?.();
+    this.unsubscribeWatch = null;
+    this.unsubscribeServer?.();
+    this.unsubscribeServer = null;
+    this.unsubscribeProfiles?.();
+    this.unsubscribeProfiles = null;
+    this.unsubscribeCredentials?.();
+    this.unsubscribeCredentials = null;
     for (const interval of this.activeIntervals) {
       clearInterval(interval);
     }
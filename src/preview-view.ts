@@ -0,0 +1,224 @@
+import { ItemView, TFile, ViewStateResult, WorkspaceLeaf, setIcon } from "obsidian";
+import { PreviewServer } from "./cli/preview-server";
+import { RunLog } from "./cli/run-log";
+import { CommandHandlers } from "./cli/handlers";
+import { getNotePagePath } from "./utils/urls";
+import { openInBrowser } from "./utils/platform";
+
+export const VIEW_TYPE_PREVIEW = "leafpress-preview";
+
+export type PreviewTheme = "system" | "light" | "dark";
+export type PreviewWidth = "mobile" | "tablet" | "desktop";
+
+interface PreviewViewState {
+  theme?: PreviewTheme;
+  width?: PreviewWidth;
+}
+
+const THEME_LABELS: Record<PreviewTheme, string> = {
+  system: "Match system",
+  light: "Light",
+  dark: "Dark",
+};
+
+const WIDTH_LABELS: Record<PreviewWidth, string> = {
+  mobile: "Mobile (375px)",
+  tablet: "Tablet (768px)",
+  desktop: "Desktop",
+};
+
+/**
+ * Shows the local preview server inside Obsidian, following the active note
+ * and reloading after each build
+ */
+export class PreviewView extends ItemView {
+  private previewServer: PreviewServer;
+  private runLog: RunLog;
+  private commandHandlers: CommandHandlers;
+  private theme: PreviewTheme = "system";
+  private width: PreviewWidth = "desktop";
+  private pagePath = "/";
+  private port: number | null = null;
+  private lastReloadedRun: number | null = null;
+  private unsubscribeRuns: (() => void) | null = null;
+  private unsubscribeServer: (() => void) | null = null;
+  private frameEl: HTMLIFrameElement | null = null;
+  private pathEl: HTMLElement | null = null;
+
+  constructor(
+    leaf: WorkspaceLeaf,
+    previewServer: PreviewServer,
+    runLog: RunLog,
+    commandHandlers: CommandHandlers
+  ) {
+    super(leaf);
+    this.previewServer = previewServer;
+    this.runLog = runLog;
+    this.commandHandlers = commandHandlers;
+  }
+
+  getViewType() {
+    return VIEW_TYPE_PREVIEW;
+  }
+
+  getDisplayText() {
+    return "Site preview";
+  }
+
+  getIcon() {
+    return "monitor";
+  }
+
+  getState(): Record<string, unknown> {
+    return { ...super.getState(), theme: this.theme, width: this.width };
+  }
+
+  async setState(state: unknown, result: ViewStateResult): Promise<void> {
+    const { theme, width } = (state ?? {}) as PreviewViewState;
+    if (theme && theme in THEME_LABELS) this.theme = theme;
+    if (width && width in WIDTH_LABELS) this.width = width;
+    await super.setState(state, result);
+    this.applyFrameOptions();
+  }
+
+  async onOpen(): Promise<void> {
+    const file = this.app.workspace.getActiveFile();
+    if (file) this.pagePath = this.getPagePath(file);
+
+    // Follow the note being edited
+    this.registerEvent(
+      this.app.workspace.on("file-open", (opened) => {
+        if (!opened || opened.extension !== "md") return;
+        const pagePath = this.getPagePath(opened);
+        if (pagePath === this.pagePath) return;
+        this.pagePath = pagePath;
+        this.showPage();
+      })
+    );
+
+    // Reload once a build or deploy has rewritten the site
+    this.unsubscribeRuns = this.runLog.onChange((run) => {
+      if (!run.finishedAt || run.exitCode !== 0 || run.id === this.lastReloadedRun) return;
+      this.lastReloadedRun = run.id;
+      this.showPage();
+    });
+
+    this.unsubscribeServer = this.previewServer.onChange(() => {
+      void this.render();
+    });
+
+    await this.render();
+  }
+
+  onClose(): Promise<void> {
+    this.unsubscribeRuns?.();
+    this.unsubscribeRuns = null;
+    this.unsubscribeServer?.();
+    this.unsubscribeServer = null;
+    this.frameEl = null;
+    this.pathEl = null;
+    return Promise.resolve();
+  }
+
+  private getPagePath(file: TFile): string {
+    return file.extension === "md" ? getNotePagePath(this.app, file) : "/";
+  }
+
+  private getPageUrl(): string | null {
+    return this.port === null ? null : `http://localhost:${this.port}${this.pagePath}`;
+  }
+
+  private async render(): Promise<void> {
+    const container = this.containerEl.children[1];
+    container.empty();
+    const content = container.createEl("div", { cls: "leafpress-preview" });
+    this.frameEl = null;
+    this.pathEl = null;
+
+    const running = await this.previewServer.isRunning();
+    this.port = running ? await this.previewServer.getPort() : null;
+
+    if (!running) {
+      const emptyEl = content.createEl("div", { cls: "leafpress-empty-state" });
+      emptyEl.createEl("p", { text: "The preview server isn't running." });
+      const startBtn = emptyEl.createEl("button", { text: "Start server", cls: "mod-cta" });
+      startBtn.addEventListener("click", () => {
+        startBtn.disabled = true;
+        startBtn.textContent = "Starting...";
+        void this.commandHandlers.startPreviewServer().then(() => this.render());
+      });
+      return;
+    }
+
+    this.renderToolbar(content.createEl("div", { cls: "leafpress-preview-toolbar" }));
+
+    const stage = content.createEl("div", { cls: "leafpress-preview-stage" });
+    this.frameEl = stage.createEl("iframe", { cls: "leafpress-preview-frame" });
+    this.applyFrameOptions();
+    this.showPage();
+  }
+
+  private renderToolbar(toolbar: HTMLElement): void {
+    this.pathEl = toolbar.createEl("span", { cls: "leafpress-preview-path" });
+
+    const themeSelect = toolbar.createEl("select", { cls: "dropdown" });
+    themeSelect.title = "Site theme";
+    for (const [value, label] of Object.entries(THEME_LABELS)) {
+      themeSelect.createEl("option", { text: label, attr: { value } });
+    }
+    themeSelect.value = this.theme;
+    themeSelect.addEventListener("change", () => {
+      this.theme = themeSelect.value as PreviewTheme;
+      this.applyFrameOptions();
+      this.app.workspace.requestSaveLayout();
+    });
+
+    const widthSelect = toolbar.createEl("select", { cls: "dropdown" });
+    widthSelect.title = "Viewport width";
+    for (const [value, label] of Object.entries(WIDTH_LABELS)) {
+      widthSelect.createEl("option", { text: label, attr: { value } });
+    }
+    widthSelect.value = this.width;
+    widthSelect.addEventListener("change", () => {
+      this.width = widthSelect.value as PreviewWidth;
+      this.applyFrameOptions();
+      this.app.workspace.requestSaveLayout();
+    });
+
+    const reloadBtn = toolbar.createEl("button", { cls: "clickable-icon" });
+    setIcon(reloadBtn, "refresh-cw");
+    reloadBtn.title = "Reload";
+    reloadBtn.addEventListener("click", () => this.showPage());
+
+    const openBtn = toolbar.createEl("button", { cls: "clickable-icon" });
+    setIcon(openBtn, "external-link");
+    openBtn.title = "Open in browser";
+    openBtn.addEventListener("click", () => {
+      const url = this.getPageUrl();
+      if (url) openInBrowser(url);
+    });
+  }
+
+  /**
+   * Point the frame at the current page. Setting the address again also
+   * reloads it, so this doubles as refresh.
+   */
+  private showPage(): void {
+    const url = this.getPageUrl();
+    if (!this.frameEl || !url) return;
+
+    this.previewServer.touch();
+    this.pathEl?.setText(this.pagePath);
+    this.frameEl.src = url;
+  }
+
+  private applyFrameOptions(): void {
+    if (!this.frameEl) return;
+    // The page's prefers-color-scheme follows the frame's color-scheme, so
+    // the site's own light/dark styles apply without touching its content
+    this.frameEl.setCssProps({ "color-scheme": this.theme === "system" ? "normal" : this.theme });
+    for (const width of Object.keys(WIDTH_LABELS)) {
+      this.frameEl.toggleClass(`is-${width}`, width === this.width);
+    }
+  }
+}
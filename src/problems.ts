@@ -0,0 +1,155 @@
+import { ItemView, WorkspaceLeaf, TFile, Notice } from "obsidian";
+import { RunLog } from "./cli/run-log";
+import { BuildDiagnostic, CommandRun } from "./cli/types";
+
+export const VIEW_TYPE_PROBLEMS = "leafpress-problems";
+
+const KIND_LABELS: Record<BuildDiagnostic["kind"], string> = {
+  "broken-link": "Broken link",
+  frontmatter: "Frontmatter",
+  "missing-image": "Missing image",
+  other: "Build",
+};
+
+export class ProblemsView extends ItemView {
+  private runLog: RunLog;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(leaf: WorkspaceLeaf, runLog: RunLog) {
+    super(leaf);
+    this.runLog = runLog;
+  }
+
+  getViewType() {
+    return VIEW_TYPE_PROBLEMS;
+  }
+
+  getDisplayText() {
+    return "Build problems";
+  }
+
+  getIcon() {
+    return "alert-triangle";
+  }
+
+  onOpen(): Promise<void> {
+    this.unsubscribe = this.runLog.onChange((run) => {
+      // Only re-render once a build has finished
+      if (run.command === "build" && run.finishedAt) {
+        this.render();
+      }
+    });
+    this.render();
+    return Promise.resolve();
+  }
+
+  onClose(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    return Promise.resolve();
+  }
+
+  private getLastBuild(): CommandRun | undefined {
+    return this.runLog
+      .getRuns()
+      .find((run) => run.command === "build" && run.finishedAt && !run.cancelled);
+  }
+
+  private render(): void {
+    const container = this.containerEl.children[1];
+    container.empty();
+    const content = container.createEl("div", { cls: "leafpress-problems" });
+
+    const run = this.getLastBuild();
+    if (!run) {
+      content.createEl("p", {
+        text: "Run a build to see problems.",
+        cls: "leafpress-empty-state",
+      });
+      return;
+    }
+
+    const diagnostics = run.diagnostics ?? [];
+    const errors = diagnostics.filter((d) => d.severity === "error").length;
+    const warnings = diagnostics.length - errors;
+
+    const summary = content.createEl("p", { cls: "leafpress-deploy-info" });
+    summary.setText(
+      `Build at ${new Date(run.startedAt).toLocaleTimeString()}: ${errors} error(s), ${warnings} warning(s)`
+    );
+
+    if (diagnostics.length === 0) {
+      content.createEl("p", {
+        text: run.exitCode === 0 ? "No problems found." : "Build failed without reporting a location. Check the build log.",
+        cls: "leafpress-empty-state",
+      });
+      return;
+    }
+
+    // Group by file, problems without a file go last
+    const groups = new Map<string, BuildDiagnostic[]>();
+    for (const diagnostic of diagnostics) {
+      const key = diagnostic.file ?? "";
+      const group = groups.get(key) ?? [];
+      group.push(diagnostic);
+      groups.set(key, group);
+    }
+    const keys = [...groups.keys()].sort((a, b) => {
+      if (!a) return 1;
+      if (!b) return -1;
+      return a.localeCompare(b);
+    });
+
+    for (const key of keys) {
+      const groupEl = content.createEl("div", { cls: "leafpress-problems-group" });
+      groupEl.createEl("div", {
+        text: key || "General",
+        cls: "leafpress-problems-file",
+      });
+
+      const list = groupEl.createEl("ul", { cls: "leafpress-problems-list" });
+      for (const diagnostic of groups.get(key) ?? []) {
+        const item = list.createEl("li", {
+          cls: `leafpress-problem leafpress-problem-${diagnostic.severity}`,
+        });
+        item.createEl("span", {
+          text: diagnostic.severity === "error" ? "✗" : "⚠",
+          cls: "leafpress-problem-icon",
+        });
+        item.createEl("span", {
+          text: `${KIND_LABELS[diagnostic.kind]}: ${diagnostic.message}`,
+          cls: "leafpress-problem-message",
+        });
+        if (diagnostic.line) {
+          item.createEl("span", {
+            text: `line ${diagnostic.line}`,
+            cls: "leafpress-problem-line",
+          });
+        }
+
+        if (diagnostic.file) {
+          item.addClass("is-clickable");
+          item.addEventListener("click", () => {
+            void this.openLocation(diagnostic);
+          });
+        }
+      }
+    }
+  }
+
+  private async openLocation(diagnostic: BuildDiagnostic): Promise<void> {
+    if (!diagnostic.file) return;
+
+    const file = this.app.vault.getAbstractFileByPath(diagnostic.file);
+    if (!(file instanceof TFile)) {
+      new Notice(`Note not found: ${diagnostic.file}`);
+      return;
+    }
+
+    const leaf = this.app.workspace.getLeaf(false);
+    await leaf.openFile(file, {
+      active: true,
+      eState: diagnostic.line ? { line: diagnostic.line - 1 } : undefined,
+    });
+  }
+}
@@ -0,0 +1,222 @@
+import { App, Component, TAbstractFile, TFile, WorkspaceLeaf } from "obsidian";
+import { RunLog } from "./cli/run-log";
+import { loadPublishRules, getNoteSkipReason, PublishRules } from "./utils/publish";
+import { readDeployState, sha1Hash } from "./utils/deploy-state";
+import { LeafpressPluginSettings } from "./settings";
+
+export type PublishStatus = "published" | "modified" | "never-deployed" | "draft" | "ignored";
+
+const STATUS_LABELS: Record<PublishStatus, string> = {
+  published: "Published",
+  modified: "Modified since last deploy",
+  "never-deployed": "Never deployed",
+  draft: "Draft",
+  ignored: "Not published (ignored)",
+};
+
+interface FileExplorerView {
+  containerEl: HTMLElement;
+  fileItems?: Record<string, { selfEl?: HTMLElement }>;
+}
+
+/**
+ * Tracks whether each note is published, and shows it as badges in the
+ * file explorer and as a status bar item for the active note
+ */
+export class PublishStatusTracker extends Component {
+  private app: App;
+  private settings: LeafpressPluginSettings;
+  private runLog: RunLog;
+  private statusBarEl: HTMLElement;
+  private statuses = new Map<string, PublishStatus>();
+  private rules: PublishRules | null = null;
+  private deployedFiles: Record<string, string> | null = null;
+  private refreshTimer: number | null = null;
+
+  constructor(app: App, settings: LeafpressPluginSettings, runLog: RunLog, statusBarEl: HTMLElement) {
+    super();
+    this.app = app;
+    this.settings = settings;
+    this.runLog = runLog;
+    this.statusBarEl = statusBarEl;
+  }
+
+  onload(): void {
+    this.statusBarEl.addClass("leafpress-status-bar");
+
+    this.registerEvent(
+      this.app.vault.on("modify", (file) => {
+        if (file.path === "leafpress.json") {
+          this.scheduleRefresh();
+        } else {
+          void this.updateFile(file);
+        }
+      })
+    );
+    this.registerEvent(this.app.vault.on("create", (file) => void this.updateFile(file)));
+    this.registerEvent(
+      this.app.vault.on("delete", (file) => {
+        this.statuses.delete(file.path);
+        this.renderStatusBar();
+      })
+    );
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        this.statuses.delete(oldPath);
+        void this.updateFile(file);
+      })
+    );
+    // Frontmatter edits can toggle draft status
+    this.registerEvent(this.app.metadataCache.on("changed", (file) => void this.updateFile(file)));
+    this.registerEvent(this.app.workspace.on("file-open", () => this.renderStatusBar()));
+    // Folders expanding and explorer re-renders drop our badges
+    this.registerEvent(this.app.workspace.on("layout-change", () => this.renderBadges()));
+
+    // The deploy state file is hidden from the vault, so watch for deploys instead
+    const unsubscribe = this.runLog.onChange((run) => {
+      if (run.command === "deploy" && run.finishedAt) {
+        this.scheduleRefresh();
+      }
+    });
+    this.register(unsubscribe);
+
+    this.app.workspace.onLayoutReady(() => void this.refresh());
+  }
+
+  onunload(): void {
+    if (this.refreshTimer !== null) {
+      window.clearTimeout(this.refreshTimer);
+    }
+    this.clearBadges();
+    this.statusBarEl.empty();
+  }
+
+  getStatus(path: string): PublishStatus | undefined {
+    return this.statuses.get(path);
+  }
+
+  /**
+   * Re-render after a settings change
+   */
+  applySettings(): void {
+    this.clearBadges();
+    this.renderBadges();
+    this.renderStatusBar();
+  }
+
+  scheduleRefresh(): void {
+    if (this.refreshTimer !== null) {
+      window.clearTimeout(this.refreshTimer);
+    }
+    this.refreshTimer = window.setTimeout(() => {
+      this.refreshTimer = null;
+      void this.refresh();
+    }, 500);
+  }
+
+  /**
+   * Recompute the status of every note
+   */
+  async refresh(): Promise<void> {
+    this.rules = await loadPublishRules(this.app);
+    const deployState = await readDeployState(this.app);
+    this.deployedFiles = deployState?.lastDeploy?.sourceFiles ?? null;
+
+    this.statuses.clear();
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      this.statuses.set(file.path, await this.computeStatus(file));
+    }
+
+    this.clearBadges();
+    this.renderBadges();
+    this.renderStatusBar();
+  }
+
+  private async updateFile(file: TAbstractFile): Promise<void> {
+    if (!(file instanceof TFile) || file.extension !== "md" || !this.rules) return;
+
+    const status = await this.computeStatus(file);
+    if (this.statuses.get(file.path) === status) return;
+
+    this.statuses.set(file.path, status);
+    this.renderBadge(file.path);
+    this.renderStatusBar();
+  }
+
+  private async computeStatus(file: TFile): Promise<PublishStatus> {
+    const reason = this.rules ? getNoteSkipReason(this.app, file, this.rules) : null;
+    if (reason === "draft") return "draft";
+    if (reason) return "ignored";
+
+    const deployedHash = this.deployedFiles?.[`/${file.path}`];
+    if (!deployedHash) return "never-deployed";
+
+    try {
+      const content = await this.app.vault.cachedRead(file);
+      return sha1Hash(content) === deployedHash ? "published" : "modified";
+    } catch {
+      return "modified";
+    }
+  }
+
+  private getExplorerViews(): FileExplorerView[] {
+    return this.app.workspace
+      .getLeavesOfType("file-explorer")
+      .map((leaf: WorkspaceLeaf) => leaf.view as unknown as FileExplorerView);
+  }
+
+  private getTitleEl(view: FileExplorerView, path: string): HTMLElement | null {
+    const selfEl = view.fileItems?.[path]?.selfEl;
+    if (selfEl) return selfEl;
+    return view.containerEl.querySelector<HTMLElement>(
+      `.nav-file-title[data-path="${CSS.escape(path)}"]`
+    );
+  }
+
+  private renderBadges(): void {
+    if (!this.settings.showPublishBadges) return;
+    for (const path of this.statuses.keys()) {
+      this.renderBadge(path);
+    }
+  }
+
+  private renderBadge(path: string): void {
+    if (!this.settings.showPublishBadges) return;
+    const status = this.statuses.get(path);
+    if (!status) return;
+
+    for (const view of this.getExplorerViews()) {
+      const titleEl = this.getTitleEl(view, path);
+      if (!titleEl) continue;
+
+      let badge = titleEl.querySelector<HTMLElement>(".leafpress-publish-badge");
+      if (!badge) {
+        badge = titleEl.createEl("span", { cls: "leafpress-publish-badge" });
+      }
+      badge.className = `leafpress-publish-badge is-${status}`;
+      badge.setAttribute("aria-label", STATUS_LABELS[status]);
+    }
+  }
+
+  private clearBadges(): void {
+    for (const view of this.getExplorerViews()) {
+      view.containerEl
+        .querySelectorAll(".leafpress-publish-badge")
+        .forEach((badge) => badge.remove());
+    }
+  }
+
+  private renderStatusBar(): void {
+    this.statusBarEl.empty();
+    if (!this.settings.showPublishStatusBar) return;
+
+    const file = this.app.workspace.getActiveFile();
+    if (!file || file.extension !== "md") return;
+
+    const status = this.statuses.get(file.path);
+    if (!status) return;
+
+    this.statusBarEl.createEl("span", { cls: `leafpress-publish-badge is-${status}` });
+    this.statusBarEl.createEl("span", { text: STATUS_LABELS[status] });
+  }
+}
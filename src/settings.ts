@@ -0,0 +1,94 @@
+import { DeployProvider } from "./cli/types";
+
+// What deploy does when the link checker finds problems
+export type LinkCheckMode = "off" | "warn" | "block";
+
+// What deploy does when the build is older than its sources
+export type StaleBuildMode = "build" | "warn" | "block";
+
+// When automatic deploys run
+export type AutoDeployMode = "off" | "interval" | "times" | "after-edit";
+
+// A separately configured site published from the same vault
+export interface SiteProfile {
+  id: string;
+  name: string;
+}
+
+// A deploy token, encrypted with the key in the local keyring file
+export interface StoredCredential {
+  // Base64 of IV, auth tag and ciphertext
+  data: string;
+  savedAt: string;
+  // Result of the last check against the provider, or of a rejected deploy
+  status?: "valid" | "invalid";
+  checkedAt?: string;
+  account?: string;
+  expiresAt?: string;
+}
+
+export interface LeafpressPluginSettings {
+  customBinaryPath: string;
+  autoUpdateBinary: boolean;
+  autoSelectPort: boolean;
+  // 0 keeps the preview server running until it's stopped
+  previewIdleShutdownMinutes: number;
+  buildLogHistorySize: number;
+  showBuildLogOnRun: boolean;
+  buildTimeoutMinutes: number;
+  watchMode: boolean;
+  watchDebounceSeconds: number;
+  deployTimeoutMinutes: number;
+  linkCheckOnDeploy: LinkCheckMode;
+  staleBuildOnDeploy: StaleBuildMode;
+  confirmBeforeDeploy: boolean;
+  // Warn in the confirmation dialog when more pages than this are deleted
+  deletionWarningThreshold: number;
+  showPublishBadges: boolean;
+  showPublishStatusBar: boolean;
+  deployHistorySize: number;
+  siteSnapshotCount: number;
+  autoDeployMode: AutoDeployMode;
+  autoDeployIntervalMinutes: number;
+  // Comma-separated "HH:MM" times
+  autoDeployTimes: string;
+  autoDeployIdleMinutes: number;
+  quietHoursEnabled: boolean;
+  quietHoursStart: string;
+  quietHoursEnd: string;
+  profiles: SiteProfile[];
+  // Id of the profile whose files are in place
+  activeProfile: string;
+  credentials: Partial<Record<DeployProvider, StoredCredential>>;
+}
+
+export const DEFAULT_SETTINGS: LeafpressPluginSettings = {
+  customBinaryPath: "",
+  autoUpdateBinary: true,
+  autoSelectPort: false,
+  previewIdleShutdownMinutes: 0,
+  buildLogHistorySize: 10,
+  showBuildLogOnRun: false,
+  buildTimeoutMinutes: 5,
+  watchMode: false,
+  watchDebounceSeconds: 2,
+  deployTimeoutMinutes: 5,
+  linkCheckOnDeploy: "warn",
+  staleBuildOnDeploy: "warn",
+  confirmBeforeDeploy: true,
+  deletionWarningThreshold: 10,
+  showPublishBadges: true,
+  showPublishStatusBar: true,
+  deployHistorySize: 20,
+  siteSnapshotCount: 3,
+  autoDeployMode: "off",
+  autoDeployIntervalMinutes: 60,
+  autoDeployTimes: "09:00, 18:00",
+  autoDeployIdleMinutes: 10,
+  quietHoursEnabled: false,
+  quietHoursStart: "22:00",
+  quietHoursEnd: "07:00",
+  profiles: [{ id: "default", name: "Default" }],
+  activeProfile: "default",
+  credentials: {},
+};
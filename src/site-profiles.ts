@@ -0,0 +1,228 @@
+import { App } from "obsidian";
+import { DEPLOY_STATE_FILE, DeployState } from "./utils/deploy-state";
+import { DeployHistoryEntry } from "./utils/deploy-history";
+import { readLeafpressConfig } from "./utils/config";
+import { slugify } from "./utils/urls";
+import { getDataDir } from "./utils/plugin-dir";
+import { LeafpressPluginSettings, SiteProfile } from "./settings";
+
+// Vault-root files that belong to a site: its config, the deploy state the
+// CLI writes, and the CLI's data folder
+const VAULT_FILES = ["leafpress.json", DEPLOY_STATE_FILE, ".leafpress"];
+
+// Plugin data that belongs to a site. Snapshots are shared, as they're
+// stored by content hash.
+const DATA_FILES = ["deploy-history.json", "last-build.json", "sites", "targets"];
+
+// Output folders of profiles created from a copy. Hidden, so no site's
+// build picks up another site's output.
+export const PROFILE_OUTPUT_ROOT = ".leafpress-sites";
+
+function getProfileDir(app: App, id: string): string {
+  return `${getDataDir(app)}/profiles/${id}`;
+}
+
+async function removePath(app: App, path: string): Promise<void> {
+  const adapter = app.vault.adapter;
+  const stat = await adapter.stat(path);
+  if (!stat) return;
+  if (stat.type === "folder") {
+    await adapter.rmdir(path, true);
+  } else {
+    await adapter.remove(path);
+  }
+}
+
+/**
+ * Move a file or folder, replacing whatever is at the target. Does nothing
+ * if the source doesn't exist.
+ */
+async function movePath(app: App, from: string, to: string): Promise<void> {
+  const adapter = app.vault.adapter;
+  if (!(await adapter.exists(from))) return;
+  await removePath(app, to);
+  await adapter.rename(from, to);
+}
+
+/**
+ * Source file hashes recorded by the profiles that aren't active, so their
+ * snapshots survive pruning
+ */
+export async function getStashedSourceHashes(app: App): Promise<Set<string>> {
+  const adapter = app.vault.adapter;
+  const hashes = new Set<string>();
+
+  let folders: string[];
+  try {
+    folders = (await adapter.list(`${getDataDir(app)}/profiles`)).folders;
+  } catch {
+    return hashes;
+  }
+
+  for (const folder of folders) {
+    try {
+      const state = JSON.parse(await adapter.read(`${folder}/${DEPLOY_STATE_FILE}`)) as DeployState;
+      Object.values(state.lastDeploy?.sourceFiles ?? {}).forEach((hash) => hashes.add(hash));
+    } catch {
+      // Never deployed
+    }
+    let targetFolders: string[] = [];
+    try {
+      targetFolders = (await adapter.list(`${folder}/targets`)).folders;
+    } catch {
+      // No deploy targets
+    }
+    for (const targetFolder of targetFolders) {
+      try {
+        const state = JSON.parse(await adapter.read(`${targetFolder}/deploy-state.json`)) as DeployState;
+        Object.values(state.lastDeploy?.sourceFiles ?? {}).forEach((hash) => hashes.add(hash));
+      } catch {
+        // Never deployed
+      }
+    }
+    try {
+      const history = JSON.parse(await adapter.read(`${folder}/deploy-history.json`)) as DeployHistoryEntry[];
+      for (const entry of history) {
+        Object.values(entry.sourceFiles).forEach((hash) => hashes.add(hash));
+      }
+    } catch {
+      // No history
+    }
+  }
+  return hashes;
+}
+
+/**
+ * Named sites published from one vault. The active profile's files sit where
+ * the CLI and the rest of the plugin expect them (leafpress.json, the deploy
+ * state, the plugin's history); the others are kept in the plugin's data
+ * folder and swapped in when their profile is selected.
+ */
+export class SiteProfiles {
+  private app: App;
+  private settings: LeafpressPluginSettings;
+  private saveSettings: () => Promise<void>;
+  private listeners = new Set<() => void>();
+
+  constructor(app: App, settings: LeafpressPluginSettings, saveSettings: () => Promise<void>) {
+    this.app = app;
+    this.settings = settings;
+    this.saveSettings = saveSettings;
+  }
+
+  getProfiles(): SiteProfile[] {
+    return this.settings.profiles;
+  }
+
+  getActive(): SiteProfile {
+    const { profiles, activeProfile } = this.settings;
+    return profiles.find((profile) => profile.id === activeProfile) ?? profiles[0];
+  }
+
+  /**
+   * Subscribe to profiles being switched, added, renamed or removed.
+   * Returns a function that unsubscribes.
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Add a profile. With copyConfig, it starts from the active site's config,
+   * minus its deploy target, and builds into its own output folder.
+   */
+  async create(name: string, copyConfig: boolean): Promise<SiteProfile> {
+    const base = slugify(name) || "site";
+    let id = base;
+    for (let n = 2; this.settings.profiles.some((profile) => profile.id === id); n++) {
+      id = `${base}-${n}`;
+    }
+
+    if (copyConfig) {
+      const config = await readLeafpressConfig(this.app);
+      if (config) {
+        config.outputDir = `${PROFILE_OUTPUT_ROOT}/${id}`;
+        delete config.deploy;
+        const dir = getProfileDir(this.app, id);
+        await this.app.vault.adapter.mkdir(dir);
+        await this.app.vault.adapter.write(`${dir}/leafpress.json`, JSON.stringify(config, null, 2));
+      }
+    }
+
+    const profile = { id, name: name.trim() || id };
+    this.settings.profiles = [...this.settings.profiles, profile];
+    await this.saveSettings();
+    this.notify();
+    return profile;
+  }
+
+  async rename(id: string, name: string): Promise<void> {
+    if (!name.trim()) return;
+    this.settings.profiles = this.settings.profiles.map((profile) =>
+      profile.id === id ? { ...profile, name: name.trim() } : profile
+    );
+    await this.saveSettings();
+    this.notify();
+  }
+
+  /**
+   * Delete a profile and its stored config, deploy state and history. The
+   * active profile can't be removed.
+   */
+  async remove(id: string): Promise<void> {
+    if (id === this.getActive().id) {
+      throw new Error("Switch to another site before removing this one");
+    }
+
+    await removePath(this.app, getProfileDir(this.app, id));
+    this.settings.profiles = this.settings.profiles.filter((profile) => profile.id !== id);
+    await this.saveSettings();
+    this.notify();
+  }
+
+  /**
+   * Put the active profile's files away and bring in those of another
+   */
+  async switchTo(id: string): Promise<void> {
+    const current = this.getActive();
+    if (id === current.id) return;
+    if (!this.settings.profiles.some((profile) => profile.id === id)) {
+      throw new Error(`Unknown site profile: ${id}`);
+    }
+
+    const currentDir = getProfileDir(this.app, current.id);
+    const nextDir = getProfileDir(this.app, id);
+    await this.app.vault.adapter.mkdir(currentDir);
+
+    for (const { live, name } of this.getProfileFiles()) {
+      await movePath(this.app, live, `${currentDir}/${name}`);
+    }
+    for (const { live, name } of this.getProfileFiles()) {
+      await movePath(this.app, `${nextDir}/${name}`, live);
+    }
+    await removePath(this.app, nextDir);
+
+    this.settings.activeProfile = id;
+    await this.saveSettings();
+    this.notify();
+  }
+
+  private getProfileFiles(): Array<{ live: string; name: string }> {
+    const dataDir = getDataDir(this.app);
+    return [
+      ...VAULT_FILES.map((name) => ({ live: name, name })),
+      ...DATA_FILES.map((name) => ({ live: `${dataDir}/${name}`, name })),
+    ];
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (err) {
+        console.error("[leafpress] Site profile listener error:", err);
+      }
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import { App, TFile } from "obsidian";
+import { readLeafpressConfig } from "./config";
+import { loadPublishRules, getSkipReason } from "./publish";
+import { getSourceFilesWithHashes, diffSourceFiles } from "./deploy-state";
+import { getDataDir } from "./plugin-dir";
+
+export interface BuildFreshness {
+  // When the output folder was last written, or null if there is no build
+  builtAt: number | null;
+  // Sources changed (or deleted) after the build
+  changedSince: string[];
+}
+
+// Written after each successful build from the plugin
+interface BuildRecord {
+  timestamp: number;
+  sourceFiles: Record<string, string>;
+}
+
+// Allowed gap between a recorded build and the files it wrote
+const BUILD_RECORD_SLACK_MS = 60 * 1000;
+
+function getBuildRecordPath(app: App): string {
+  return `${getDataDir(app)}/last-build.json`;
+}
+
+/**
+ * Remember the sources of a successful build so later edits can be detected
+ * by content rather than by modification time
+ */
+export async function recordSuccessfulBuild(app: App): Promise<void> {
+  const record: BuildRecord = {
+    timestamp: Date.now(),
+    sourceFiles: await getSourceFilesWithHashes(app),
+  };
+  const path = getBuildRecordPath(app);
+  const dir = path.substring(0, path.lastIndexOf("/"));
+  if (!(await app.vault.adapter.exists(dir))) {
+    await app.vault.adapter.mkdir(dir);
+  }
+  await app.vault.adapter.write(path, JSON.stringify(record));
+}
+
+async function readBuildRecord(app: App): Promise<BuildRecord | null> {
+  try {
+    return JSON.parse(await app.vault.adapter.read(getBuildRecordPath(app))) as BuildRecord;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compare the last build with the files it was built from: published notes,
+ * leafpress.json, style.css and the static folder.
+ *
+ * Notes and leafpress.json are compared by content hash when the last build
+ * ran from the plugin; otherwise, and for other files, by modification time.
+ */
+export async function checkBuildFreshness(app: App): Promise<BuildFreshness> {
+  const config = await readLeafpressConfig(app);
+  const outputDir = config?.outputDir || "_site";
+  const builtAt = await getLastBuildTime(app, outputDir);
+
+  // Only trust the record if nothing (e.g. a terminal build) wrote the output since
+  const record = await readBuildRecord(app);
+  const useHashes =
+    record !== null && builtAt !== null && builtAt <= record.timestamp + BUILD_RECORD_SLACK_MS;
+
+  const rules = await loadPublishRules(app);
+  const changed: TFile[] = app.vault.getFiles().filter((file) => {
+    if (builtAt !== null && file.stat.mtime <= builtAt) return false;
+    if (file.extension === "md") {
+      return !useHashes && getSkipReason(file.path, rules) === null;
+    }
+    if (file.path === "leafpress.json") return !useHashes;
+    return file.path === "style.css" || file.path.startsWith("static/");
+  });
+  changed.sort((a, b) => b.stat.mtime - a.stat.mtime);
+  const changedSince = changed.map((file) => file.path);
+
+  if (useHashes && record) {
+    const current = await getSourceFilesWithHashes(app);
+    for (const change of diffSourceFiles(record.sourceFiles, current)) {
+      changedSince.push(change.file);
+    }
+  }
+
+  return { builtAt, changedSince };
+}
+
+export function isBuildStale(freshness: BuildFreshness): boolean {
+  return freshness.builtAt === null || freshness.changedSince.length > 0;
+}
+
+/**
+ * Newest modification time of the files at the top of the output folder.
+ * Every build rewrites these, so this is when the last build finished.
+ */
+async function getLastBuildTime(app: App, outputDir: string): Promise<number | null> {
+  const adapter = app.vault.adapter;
+  try {
+    const { files } = await adapter.list(outputDir);
+    let newest: number | null = null;
+    for (const file of files) {
+      const stat = await adapter.stat(file);
+      if (stat && (newest === null || stat.mtime > newest)) {
+        newest = stat.mtime;
+      }
+    }
+    return newest;
+  } catch {
+    // No build yet
+    return null;
+  }
+}
@@ -1,5 +1,33 @@
 import { App, Notice } from "obsidian";
-import { LeafpressConfig, FeatureToggleKey } from "../cli/types";
+import { LeafpressConfig, FeatureToggleKey, DeployProvider } from "../cli/types";
+
+// Port used by `leafpress serve` when leafpress.json doesn't set one
+export const DEFAULT_PORT = 3000;
+
+export const PROVIDER_LABELS: Record<DeployProvider, string> = {
+  "github-pages": "GitHub Pages",
+  vercel: "Vercel",
+  netlify: "Netlify",
+  "cloudflare-pages": "Cloudflare Pages",
+  s3: "S3-compatible storage",
+  sftp: "SFTP / rsync",
+  local: "Folder or zip",
+};
+
+/**
+ * Display name for a deploy provider, falling back to its id
+ */
+export function getProviderLabel(provider: string): string {
+  return (PROVIDER_LABELS as Record<string, string>)[provider] ?? provider;
+}
+
+export function getPreviewPort(config: LeafpressConfig | null): number {
+  const port = config?.port;
+  if (typeof port === "number" && Number.isInteger(port) && port > 0 && port <= 65535) {
+    return port;
+  }
+  return DEFAULT_PORT;
+}
 
 export async function readLeafpressConfig(
   app: App
@@ -118,3 +146,30 @@ export async function updateSiteProperty(
     return false;
   }
 }
+
+export async function updatePreviewPort(
+  app: App,
+  port: number | null
+): Promise<boolean> {
+  try {
+    const config = await readLeafpressConfig(app);
+    if (!config) {
+      // eslint-disable-next-line obsidianmd/ui/sentence-case -- Filename stylized as lowercase
+      new Notice("leafpress.json not found. Initialize your site first.");
+      return false;
+    }
+
+    if (port === null) {
+      delete config.port;
+    } else {
+      config.port = port;
+    }
+
+    await writeLeafpressConfig(app, config);
+    return true;
+  } catch (err) {
+    console.error("[leafpress] Error updating preview port:", err);
+    new Notice("Failed to update port");
+    return false;
+  }
+}
@@ -0,0 +1,90 @@
+import { App } from "obsidian";
+import { PendingFile } from "./deploy-state";
+import { getDataDir } from "./plugin-dir";
+
+export interface DeployHistoryEntry {
+  id: string;
+  timestamp: string;
+  provider: string;
+  url: string;
+  cliVersion: string | null;
+  durationMs: number;
+  // Source files that changed relative to the previous deploy
+  changedFiles: Array<Pick<PendingFile, "status" | "file">>;
+  // Source file hashes as recorded in the deploy state after this deploy
+  sourceFiles: Record<string, string>;
+  // Whether a copy of the built site was kept for this deploy
+  hasSiteSnapshot: boolean;
+  // Set when this deploy republished an earlier one
+  redeployOf?: string;
+  // Named deploy target it went to; production when unset
+  target?: string;
+}
+
+function getHistoryPath(app: App): string {
+  return `${getDataDir(app)}/deploy-history.json`;
+}
+
+/**
+ * Vault-relative folder holding the built site of a deploy
+ */
+export function getSiteSnapshotPath(app: App, id: string): string {
+  return `${getDataDir(app)}/sites/${id}`;
+}
+
+/**
+ * Recorded deploys, newest first
+ */
+export async function readDeployHistory(app: App): Promise<DeployHistoryEntry[]> {
+  let content: string;
+  try {
+    content = await app.vault.adapter.read(getHistoryPath(app));
+  } catch {
+    return [];
+  }
+
+  try {
+    const entries = JSON.parse(content) as DeployHistoryEntry[];
+    return Array.isArray(entries) ? entries : [];
+  } catch (err) {
+    console.error("[leafpress] Failed to parse deploy history:", err);
+    return [];
+  }
+}
+
+/**
+ * Add a deploy to the front of the history, dropping entries beyond maxEntries
+ * and site snapshots beyond maxSiteSnapshots
+ */
+export async function addDeployHistoryEntry(
+  app: App,
+  entry: DeployHistoryEntry,
+  maxEntries: number,
+  maxSiteSnapshots: number
+): Promise<void> {
+  const adapter = app.vault.adapter;
+  const history = [entry, ...(await readDeployHistory(app))];
+  const kept = history.slice(0, Math.max(1, maxEntries));
+
+  let sitesKept = 0;
+  for (const item of history) {
+    if (!item.hasSiteSnapshot) continue;
+    const keepSite = kept.includes(item) && sitesKept < maxSiteSnapshots;
+    if (keepSite) {
+      sitesKept++;
+      continue;
+    }
+    item.hasSiteSnapshot = false;
+    try {
+      await adapter.rmdir(getSiteSnapshotPath(app, item.id), true);
+    } catch {
+      // Already gone
+    }
+  }
+
+  const dir = getDataDir(app);
+  if (!(await adapter.exists(dir))) {
+    await adapter.mkdir(dir);
+  }
+  await adapter.write(getHistoryPath(app), JSON.stringify(kept, null, 2));
+}
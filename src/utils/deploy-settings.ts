@@ -0,0 +1,430 @@
+import * as path from "path";
+import { DeployProvider, DeploySettings, ProviderSettings } from "../cli/types";
+
+// One entry of deploy.settings, as shown in the settings forms
+export interface DeploySettingField<P extends DeployProvider = DeployProvider> {
+  key: keyof ProviderSettings[P] & string;
+  name: string;
+  desc: string;
+  placeholder?: string;
+  required?: boolean;
+  defaultValue?: string;
+  // Shown as a dropdown of these values and labels instead of a text box
+  options?: Record<string, string>;
+  // Questions from the CLI's interactive setup that this setting answers
+  prompt?: RegExp;
+  // Why a non-empty value is invalid, or null if it's fine
+  validate?: (value: string) => string | null;
+}
+
+function validateRepo(value: string): string | null {
+  return /^[A-Za-z0-9][A-Za-z0-9-]{0,38}\/[\w.-]{1,100}$/.test(value)
+    ? null
+    : "Use the form owner/name";
+}
+
+/**
+ * Git's rules for branch names, minus the rarely hit ones
+ */
+function validateBranch(value: string): string | null {
+  if (
+    /[\s~^:?*[\\]|\.\.|@\{/.test(value) ||
+    /^[-/.]|[/.]$|\.lock$|\/\//.test(value)
+  ) {
+    return "Not a valid branch name";
+  }
+  return null;
+}
+
+function validateDomain(value: string): string | null {
+  if (value.includes("://")) return "Enter the domain without https://";
+  return /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/i.test(value)
+    ? null
+    : "Not a valid domain name, e.g. notes.example.com";
+}
+
+function validateUrl(value: string): string | null {
+  try {
+    const url = new URL(value);
+    if (url.protocol === "https:" || url.protocol === "http:") return null;
+  } catch {
+    // Not a URL
+  }
+  return "Enter a full address starting with https:// or http://";
+}
+
+// Providers the plugin deploys to itself; the CLI deploys to the rest and
+// keeps its own configuration for them
+export const PLUGIN_DEPLOYED_PROVIDERS = new Set<DeployProvider>(["cloudflare-pages", "s3", "sftp", "local"]);
+
+const CUSTOM_DOMAIN: DeploySettingField<"github-pages" | "vercel" | "netlify" | "cloudflare-pages"> = {
+  key: "customDomain",
+  name: "Custom domain",
+  desc: "Domain the site is served from, if not the provider's own",
+  placeholder: "notes.example.com",
+  validate: validateDomain,
+};
+
+export const DEPLOY_SETTING_FIELDS: { [P in DeployProvider]: DeploySettingField<P>[] } = {
+  "github-pages": [
+    {
+      key: "repo",
+      name: "Repository",
+      desc: "Repository the site is pushed to, as owner/name",
+      placeholder: "owner/my-site",
+      required: true,
+      prompt: /repo/i,
+      validate: validateRepo,
+    },
+    CUSTOM_DOMAIN,
+  ],
+  vercel: [
+    {
+      key: "project",
+      name: "Project",
+      desc: "Vercel project the site is deployed to",
+      placeholder: "my-site",
+      required: true,
+      prompt: /project/i,
+      validate: (value) =>
+        /^[a-z0-9._-]{1,100}$/.test(value) && !value.includes("---")
+          ? null
+          : "Project names use lowercase letters, digits, '.', '_' and '-'",
+    },
+    CUSTOM_DOMAIN,
+  ],
+  netlify: [
+    {
+      key: "siteId",
+      name: "Site",
+      desc: "Site name or API ID, from the site's configuration in Netlify",
+      placeholder: "my-site",
+      required: true,
+      prompt: /site/i,
+      validate: (value) =>
+        /^[a-z0-9][a-z0-9-]*$/i.test(value) ? null : "Site names and IDs use letters, digits and '-'",
+    },
+    CUSTOM_DOMAIN,
+  ],
+  "cloudflare-pages": [
+    {
+      key: "accountId",
+      name: "Account ID",
+      desc: "Shown on the account's overview page in the Cloudflare dashboard",
+      placeholder: "0123456789abcdef0123456789abcdef",
+      required: true,
+      prompt: /account/i,
+      validate: (value) =>
+        /^[0-9a-f]{32}$/i.test(value) ? null : "Account IDs are 32 hexadecimal characters",
+    },
+    {
+      key: "project",
+      name: "Project",
+      desc: "Pages project name. It's created on the first deploy if it doesn't exist.",
+      placeholder: "my-site",
+      required: true,
+      prompt: /project/i,
+      validate: (value) =>
+        /^[a-z0-9][a-z0-9-]{0,57}$/.test(value)
+          ? null
+          : "Project names use lowercase letters, digits and '-'",
+    },
+    {
+      key: "branch",
+      name: "Branch",
+      desc: "Publish as a preview of this branch. Leave empty to publish to production.",
+      placeholder: "Optional",
+      prompt: /branch/i,
+      validate: validateBranch,
+    },
+    CUSTOM_DOMAIN,
+  ],
+  s3: [
+    {
+      key: "bucket",
+      name: "Bucket",
+      desc: "Bucket the site's files are uploaded to",
+      placeholder: "my-site",
+      required: true,
+      prompt: /bucket/i,
+      validate: (value) =>
+        /^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/.test(value)
+          ? null
+          : "Bucket names are 3 to 63 lowercase letters, digits, '.' and '-'",
+    },
+    {
+      key: "endpoint",
+      name: "Endpoint",
+      desc: "API address for services other than AWS, such as MinIO, R2 or B2",
+      placeholder: "http://localhost:9000",
+      prompt: /endpoint/i,
+      validate: validateUrl,
+    },
+    {
+      key: "region",
+      name: "Region",
+      desc: "Region of the bucket. Most services other than AWS accept any value.",
+      placeholder: "us-east-1",
+      prompt: /region/i,
+      validate: (value) => (/^[a-z0-9-]+$/.test(value) ? null : "Not a valid region, e.g. us-east-1"),
+    },
+    {
+      key: "prefix",
+      name: "Folder",
+      desc: "Folder within the bucket. Leave empty to use the top level.",
+      placeholder: "Optional",
+      prompt: /prefix|folder/i,
+      validate: (value) =>
+        value.startsWith("/") || value.split("/").includes("..")
+          ? "Use a path relative to the bucket, without '..'"
+          : null,
+    },
+    {
+      key: "accessKeyId",
+      name: "Access key ID",
+      desc: "The secret key is stored with the other tokens below",
+      placeholder: "AKIA...",
+      required: true,
+      prompt: /access key/i,
+      validate: (value) => (/^\S+$/.test(value) ? null : "Access key IDs don't contain spaces"),
+    },
+    {
+      key: "publicUrl",
+      name: "Public URL",
+      desc: "Address the bucket's files are served from, if not the endpoint itself",
+      placeholder: "https://files.example.com",
+      prompt: /url|address/i,
+      validate: validateUrl,
+    },
+  ],
+  sftp: [
+    {
+      key: "method",
+      name: "Method",
+      desc: "rsync only uploads what changed and needs rsync on both ends. SFTP copies everything and works with any SSH server.",
+      required: true,
+      defaultValue: "rsync",
+      options: { rsync: "rsync over SSH", sftp: "SFTP" },
+    },
+    {
+      key: "host",
+      name: "Server",
+      desc: "Host name or IP address. Signs in with your SSH keys or agent.",
+      placeholder: "example.com",
+      required: true,
+      prompt: /host|server/i,
+      validate: (value) => (/^[\w.:-]+$/.test(value) ? null : "Not a valid host name"),
+    },
+    {
+      key: "port",
+      name: "Port",
+      desc: "SSH port",
+      placeholder: "22",
+      prompt: /port/i,
+      validate: (value) =>
+        /^\d+$/.test(value) && Number(value) > 0 && Number(value) <= 65535
+          ? null
+          : "Ports are numbers from 1 to 65535",
+    },
+    {
+      key: "user",
+      name: "User",
+      desc: "User to sign in as",
+      placeholder: "deploy",
+      required: true,
+      prompt: /user/i,
+      validate: (value) => (/^[a-z_][\w.-]*$/i.test(value) ? null : "Not a valid user name"),
+    },
+    {
+      key: "remotePath",
+      name: "Remote folder",
+      desc: "Folder on the server the site is copied into. rsync replaces its other contents; SFTP only removes pages it uploaded before.",
+      placeholder: "/var/www/notes",
+      required: true,
+      prompt: /path|folder|directory/i,
+      validate: (value) => (/^[^\n\r]+$/.test(value) && value !== "/" ? null : "Not a usable folder"),
+    },
+    {
+      key: "publicUrl",
+      name: "Public URL",
+      desc: "Address the server publishes that folder at",
+      placeholder: "https://notes.example.com",
+      required: true,
+      prompt: /url|address/i,
+      validate: validateUrl,
+    },
+  ],
+  local: [
+    {
+      key: "format",
+      name: "Export as",
+      desc: "A folder holding the site, or a single zip file",
+      required: true,
+      defaultValue: "folder",
+      options: { folder: "Folder", zip: "Zip file" },
+    },
+    {
+      key: "path",
+      name: "Location",
+      desc: "Absolute path of the folder, or of the .zip file. Each export replaces the files the previous one wrote.",
+      placeholder: "/srv/intranet/notes",
+      required: true,
+      validate: (value) => (path.isAbsolute(value) ? null : "Enter an absolute path"),
+    },
+    {
+      key: "basePath",
+      name: "Base path",
+      desc: "For a site served from a subfolder: links starting with / are rewritten to start with this",
+      placeholder: "/notes",
+      validate: (value) =>
+        /^\/[^\s?#]*$/.test(value) ? null : "Use a path starting with /, e.g. /notes",
+    },
+  ],
+};
+
+export function getDeploySettingFields(provider: DeployProvider): DeploySettingField[] {
+  return (DEPLOY_SETTING_FIELDS[provider] ?? []) as DeploySettingField[];
+}
+
+/**
+ * Problem with one setting's value, or null if it's fine
+ */
+export function validateDeployField(field: DeploySettingField, value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return field.required ? `${field.name} is required` : null;
+  return field.validate?.(trimmed) ?? null;
+}
+
+/**
+ * Problems with a provider's settings, each prefixed with the setting's name.
+ * Empty settings are left alone: the CLI keeps its own configuration when
+ * deployment was set up interactively.
+ */
+export function validateDeploySettings(deploy: DeploySettings): string[] {
+  const values = getDeploySettingValues(deploy);
+  const fields = getDeploySettingFields(deploy.provider);
+  if (fields.every((field) => !(values[field.key] ?? "").trim())) return [];
+  return validateDeploySettingValues(deploy.provider, values);
+}
+
+/**
+ * Problems with the values of a settings form, each prefixed with the
+ * setting's name
+ */
+export function validateDeploySettingValues(
+  provider: DeployProvider,
+  values: Record<string, string>
+): string[] {
+  const errors: string[] = [];
+  for (const field of getDeploySettingFields(provider)) {
+    const error = validateDeployField(field, values[field.key] ?? "");
+    if (error === null) continue;
+    errors.push(error.startsWith(field.name) ? error : `${field.name}: ${error}`);
+  }
+  if (provider === "local" && values.format === "zip" && !/\.zip$/i.test((values.path ?? "").trim())) {
+    errors.push("Location: a zip export needs a path ending in .zip");
+  }
+  return errors;
+}
+
+/**
+ * A deploy's settings as strings, for editing in a form
+ */
+export function getDeploySettingValues(deploy: DeploySettings | undefined): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const [key, value] of Object.entries(deploy?.settings ?? {})) {
+    if (typeof value === "string") values[key] = value;
+  }
+  return values;
+}
+
+/**
+ * Settings from a form for a provider: its own fields, trimmed, with empty
+ * ones left out. Entries the form doesn't know about are kept from
+ * `existing`, as the CLI may store its own.
+ */
+export function toDeploySettings(
+  provider: DeployProvider,
+  values: Record<string, string>,
+  existing: DeploySettings["settings"] = {}
+): DeploySettings["settings"] {
+  const fields = getDeploySettingFields(provider);
+  const settings: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(existing ?? {})) {
+    if (!fields.some((field) => field.key === key)) settings[key] = value;
+  }
+  for (const field of fields) {
+    const value = (values[field.key] ?? "").trim();
+    if (value) settings[field.key] = value;
+  }
+  return settings;
+}
+
+/**
+ * Address a deploy with these settings is published at, for when the CLI's
+ * output doesn't say. Returned without a trailing slash.
+ */
+export function getDeployUrl(deploy: DeploySettings | undefined): string | null {
+  if (!deploy) return null;
+  const values = getDeploySettingValues(deploy);
+  const value = (key: string) => (values[key] ?? "").trim();
+  const domain = value("customDomain");
+  if (domain) return `https://${domain}`;
+
+  let url = "";
+  switch (deploy.provider) {
+    case "github-pages": {
+      const [owner, repo] = value("repo").split("/");
+      if (owner && repo) {
+        // A repository named owner.github.io is the account's own site
+        url = repo.toLowerCase() === `${owner.toLowerCase()}.github.io`
+          ? `https://${owner}.github.io`
+          : `https://${owner}.github.io/${repo}`;
+      }
+      break;
+    }
+    case "vercel":
+      if (value("project")) url = `https://${value("project")}.vercel.app`;
+      break;
+    case "netlify":
+      if (value("siteId")) url = `https://${value("siteId")}.netlify.app`;
+      break;
+    case "cloudflare-pages":
+      if (value("project")) {
+        const branch = slugifyBranch(value("branch"));
+        url = `https://${branch ? `${branch}.` : ""}${value("project")}.pages.dev`;
+      }
+      break;
+    case "s3": {
+      const prefix = value("prefix").replace(/^\/+|\/+$/g, "");
+      if (value("publicUrl")) {
+        url = value("publicUrl");
+      } else if (value("bucket")) {
+        url = value("endpoint")
+          ? `${value("endpoint").replace(/\/+$/, "")}/${value("bucket")}`
+          : `https://${value("bucket")}.s3.${value("region") || "us-east-1"}.amazonaws.com`;
+        if (prefix) url += `/${prefix}`;
+      }
+      break;
+    }
+    case "sftp":
+      url = value("publicUrl");
+      break;
+    // Exports aren't served from anywhere the plugin knows
+    case "local":
+      break;
+  }
+  return url ? url.replace(/\/+$/, "") : null;
+}
+
+/**
+ * Cloudflare's alias for a branch preview, e.g. feature/new-theme ->
+ * feature-new-theme
+ */
+function slugifyBranch(branch: string): string {
+  return branch
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 28);
+}
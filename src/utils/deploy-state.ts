@@ -0,0 +1,149 @@
+import { App } from "obsidian";
+import * as crypto from "crypto";
+import { loadPublishRules, getSkipReason } from "./publish";
+
+// Written by the CLI after each successful deploy
+export const DEPLOY_STATE_FILE = ".leafpress-deploy-state.json";
+
+export interface DeployState {
+  lastDeploy?: {
+    timestamp: string;
+    url: string;
+    sourceFiles?: Record<string, string>;
+  };
+}
+
+// A source file that differs from the last deploy
+export interface PendingFile {
+  status: "added" | "modified" | "deleted";
+  file: string;
+  deployedHash?: string;
+}
+
+/**
+ * Read a deploy state file: the CLI's own in the vault root by default, or
+ * the vault-relative statePath of a deploy target
+ */
+export async function readDeployState(
+  app: App,
+  statePath: string = DEPLOY_STATE_FILE
+): Promise<DeployState | null> {
+  let stateContent: string;
+  try {
+    stateContent = await app.vault.adapter.read(statePath);
+  } catch {
+    return null;
+  }
+
+  try {
+    return JSON.parse(stateContent) as DeployState;
+  } catch (parseErr) {
+    console.error("[leafpress] Failed to parse deployment state JSON:", parseErr);
+    return null;
+  }
+}
+
+export function sha1Hash(content: string): string {
+  // Use SHA1 to match the backend (leafpress CLI)
+  return crypto.createHash("sha1").update(content).digest("hex");
+}
+
+/**
+ * Hashes of the source files the CLI tracks, keyed like the deploy state
+ * ("/notes/foo.md")
+ */
+export async function getSourceFilesWithHashes(app: App): Promise<Record<string, string>> {
+  const files: Record<string, string> = {};
+  const rules = await loadPublishRules(app);
+
+  // Get all markdown files from vault
+  const markdownFiles = app.vault.getMarkdownFiles();
+
+  for (const file of markdownFiles) {
+    const filePath = file.path;
+
+    // Skip reserved, hidden and ignored files
+    if (getSkipReason(filePath, rules)) {
+      continue;
+    }
+
+    try {
+      const content = await app.vault.cachedRead(file);
+      const hash = sha1Hash(content);
+      files[`/${filePath}`] = hash;
+    } catch {
+      // Error reading file
+    }
+  }
+
+  // Also include leafpress.json for tracking config changes
+  try {
+    const configContent = await app.vault.adapter.read("leafpress.json");
+    files["/leafpress.json"] = sha1Hash(configContent);
+  } catch {
+    // Config might not exist
+  }
+
+  return files;
+}
+
+/**
+ * Source files added, modified or deleted since the deploy that recorded
+ * deployedSourceFiles
+ */
+export async function getPendingFiles(
+  app: App,
+  deployedSourceFiles: Record<string, string>
+): Promise<PendingFile[]> {
+  // Same publish rules as the source scan. leafpress.json is reserved but
+  // tracked on purpose so config changes show up as pending
+  const rules = await loadPublishRules(app);
+  const shouldIgnore = (filePath: string): boolean =>
+    filePath !== "/leafpress.json" && getSkipReason(filePath, rules) !== null;
+
+  const currentSourceFiles = await getSourceFilesWithHashes(app);
+  return diffSourceFiles(deployedSourceFiles, currentSourceFiles).filter(
+    (pending) => !shouldIgnore(`/${pending.file}`)
+  );
+}
+
+/**
+ * Files added, modified or deleted between two source file maps (as
+ * recorded in the deploy state)
+ */
+export function diffSourceFiles(
+  before: Record<string, string>,
+  after: Record<string, string>
+): PendingFile[] {
+  const changes: PendingFile[] = [];
+
+  // Find modified, added files
+  for (const [file, hash] of Object.entries(after)) {
+    const deployedHash = before[file];
+    if (!deployedHash) {
+      changes.push({
+        status: "added",
+        file: file.replace(/^\//, ""),
+      });
+    } else if (deployedHash !== hash) {
+      changes.push({
+        status: "modified",
+        file: file.replace(/^\//, ""),
+        deployedHash,
+      });
+    }
+  }
+
+  // Find deleted files
+  for (const [file, hash] of Object.entries(before)) {
+    if (!(file in after)) {
+      changes.push({
+        status: "deleted",
+        file: file.replace(/^\//, ""),
+        deployedHash: hash,
+      });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,60 @@
+import { App } from "obsidian";
+import { LeafpressConfig, DeployTarget } from "../cli/types";
+import { DEPLOY_STATE_FILE, DeployState } from "./deploy-state";
+import { slugify } from "./urls";
+import { getDataDir } from "./plugin-dir";
+
+// How the default `deploy` in leafpress.json is shown next to named targets
+export const PRODUCTION_LABEL = "Production";
+
+function getTargetsDir(app: App): string {
+  return `${getDataDir(app)}/targets`;
+}
+
+/**
+ * Folder name for a target's data, so names differing only in case or
+ * punctuation count as the same target
+ */
+export function getTargetKey(name: string): string {
+  return slugify(name) || "target";
+}
+
+/**
+ * Vault-relative deploy state of a named target. Production uses the CLI's
+ * own state file in the vault root.
+ */
+export function getTargetStatePath(app: App, target?: string): string {
+  if (target === undefined) return DEPLOY_STATE_FILE;
+  return `${getTargetsDir(app)}/${getTargetKey(target)}/deploy-state.json`;
+}
+
+export function getDeployTarget(config: LeafpressConfig | null, name: string): DeployTarget | null {
+  const key = getTargetKey(name);
+  return config?.targets?.find((target) => getTargetKey(target.name) === key) ?? null;
+}
+
+/**
+ * Source file hashes recorded by every named target, so their snapshots
+ * survive pruning
+ */
+export async function getTargetSourceHashes(app: App): Promise<Set<string>> {
+  const adapter = app.vault.adapter;
+  const hashes = new Set<string>();
+
+  let folders: string[];
+  try {
+    folders = (await adapter.list(getTargetsDir(app))).folders;
+  } catch {
+    return hashes;
+  }
+
+  for (const folder of folders) {
+    try {
+      const state = JSON.parse(await adapter.read(`${folder}/deploy-state.json`)) as DeployState;
+      Object.values(state.lastDeploy?.sourceFiles ?? {}).forEach((hash) => hashes.add(hash));
+    } catch {
+      // Never deployed
+    }
+  }
+  return hashes;
+}
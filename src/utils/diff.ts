@@ -0,0 +1,146 @@
+export type DiffLineType = "context" | "added" | "removed";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  // 1-based line numbers in the old and new text
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  newStart: number;
+  lines: DiffLine[];
+}
+
+// Beyond this many inserted/removed lines the diff falls back to a full replacement
+const MAX_EDIT_DISTANCE = 2000;
+
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split(/\r?\n/);
+  // A trailing newline doesn't start another line
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Line diff between two texts (Myers' O(ND) algorithm)
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+
+  // Furthest x reached on each diagonal k. Only diagonals -d..d are saved
+  // per edit distance for backtracking, which keeps memory at O(D^2)
+  const v = new Array<number>(2 * max + 3).fill(0);
+  const trace: number[][] = [];
+  let found = false;
+
+  outer: for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) break;
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1];
+      } else {
+        x = v[offset + k - 1] + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break outer;
+      }
+    }
+  }
+
+  // Too many changes to diff line by line: show a full replacement
+  if (!found) {
+    return [
+      ...a.map((text, i): DiffLine => ({ type: "removed", text, oldLine: i + 1 })),
+      ...b.map((text, i): DiffLine => ({ type: "added", text, newLine: i + 1 })),
+    ];
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const result: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const vd = trace[d];
+    const vOffset = d + 1;
+    const k = x - y;
+    let prevK: number;
+    if (k === -d || (k !== d && vd[vOffset + k - 1] < vd[vOffset + k + 1])) {
+      prevK = k + 1;
+    } else {
+      prevK = k - 1;
+    }
+    const prevX = vd[vOffset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      result.push({ type: "context", text: a[x - 1], oldLine: x, newLine: y });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        result.push({ type: "added", text: b[y - 1], newLine: y });
+      } else {
+        result.push({ type: "removed", text: a[x - 1], oldLine: x });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return result.reverse();
+}
+
+/**
+ * Group a diff into hunks with the given lines of unchanged context around
+ * each change, like a unified diff
+ */
+export function toHunks(lines: DiffLine[], context: number = 3): DiffHunk[] {
+  // Mark every line within `context` lines of a change
+  const included = new Array<boolean>(lines.length).fill(false);
+  lines.forEach((line, i) => {
+    if (line.type === "context") return;
+    const from = Math.max(0, i - context);
+    const to = Math.min(lines.length - 1, i + context);
+    for (let j = from; j <= to; j++) included[j] = true;
+  });
+
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let oldLine = 1;
+  let newLine = 1;
+
+  lines.forEach((line, i) => {
+    if (included[i]) {
+      if (!current) {
+        current = { oldStart: oldLine, newStart: newLine, lines: [] };
+        hunks.push(current);
+      }
+      current.lines.push(line);
+    } else {
+      current = null;
+    }
+    if (line.type !== "added") oldLine++;
+    if (line.type !== "removed") newLine++;
+  });
+
+  return hunks;
+}
@@ -0,0 +1,58 @@
+import { App, TFile, getLinkpath } from "obsidian";
+import { loadPublishRules, getNoteSkipReason, SkipReason } from "./publish";
+
+export type LinkIssueReason = SkipReason | "missing";
+
+export interface LinkIssue {
+  source: string;
+  line: number;
+  link: string;
+  embed: boolean;
+  target?: string;
+  reason: LinkIssueReason;
+}
+
+/**
+ * Find wikilinks and embeds in published notes that point at notes the site
+ * won't publish, or at files that don't exist at all
+ */
+export async function checkLinks(app: App): Promise<LinkIssue[]> {
+  const rules = await loadPublishRules(app);
+  const issues: LinkIssue[] = [];
+
+  for (const file of app.vault.getMarkdownFiles()) {
+    if (getNoteSkipReason(app, file, rules)) continue;
+
+    const cache = app.metadataCache.getFileCache(file);
+    if (!cache) continue;
+
+    const refs = [
+      ...(cache.links ?? []).map((ref) => ({ ref, embed: false })),
+      ...(cache.embeds ?? []).map((ref) => ({ ref, embed: true })),
+    ];
+
+    for (const { ref, embed } of refs) {
+      const linkpath = getLinkpath(ref.link);
+      // Links to a heading or block in the same note
+      if (!linkpath) continue;
+
+      const line = ref.position.start.line + 1;
+      const target = app.metadataCache.getFirstLinkpathDest(linkpath, file.path);
+
+      if (!target) {
+        issues.push({ source: file.path, line, link: ref.link, embed, reason: "missing" });
+        continue;
+      }
+
+      // Only notes become pages; other embeds (images, PDFs) are copied as assets
+      if (!(target instanceof TFile) || target.extension !== "md") continue;
+
+      const reason = getNoteSkipReason(app, target, rules);
+      if (reason) {
+        issues.push({ source: file.path, line, link: ref.link, embed, target: target.path, reason });
+      }
+    }
+  }
+
+  return issues.sort((a, b) => a.source.localeCompare(b.source) || a.line - b.line);
+}
@@ -58,6 +58,22 @@ export function isPortInUse(port: number): Promise<boolean> {
   });
 }
 
+/**
+ * Find the first free port starting at startPort (cross-platform).
+ * Returns null if no free port is found within maxAttempts.
+ */
+export async function findFreePort(
+  startPort: number,
+  maxAttempts: number = 20
+): Promise<number | null> {
+  for (let port = startPort; port < startPort + maxAttempts && port <= 65535; port++) {
+    if (!(await isPortInUse(port))) {
+      return port;
+    }
+  }
+  return null;
+}
+
 /**
  * Kill processes using a specific port (cross-platform)
  */
@@ -106,3 +122,30 @@ export function killPortProcess(port: number): Promise<void> {
     }
   });
 }
+
+/**
+ * Kill a process and all of its children (cross-platform).
+ * On macOS/Linux the process must have been spawned detached so it leads
+ * its own process group.
+ */
+export function killProcessTree(pid: number, signal: NodeJS.Signals = "SIGTERM"): void {
+  if (process.platform === "win32") {
+    // Windows: taskkill /T walks the child tree, /F is required to end it
+    const proc = spawn("taskkill", ["/T", "/F", "/PID", String(pid)]);
+    proc.on("error", () => {
+      // Process may already be dead
+    });
+    return;
+  }
+
+  try {
+    // Negative PID signals the whole process group
+    process.kill(-pid, signal);
+  } catch {
+    try {
+      process.kill(pid, signal);
+    } catch {
+      // Process may already be dead
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { App, normalizePath } from "obsidian";
+
+// Vault-relative folder the plugin is installed in, from its manifest
+let pluginDir: string | null = null;
+
+/**
+ * Remember where the plugin is installed. Called once on load with
+ * manifest.dir, which follows the folder name rather than the plugin id.
+ */
+export function setPluginDir(dir: string | undefined): void {
+  pluginDir = dir ? normalizePath(dir) : null;
+}
+
+/**
+ * Vault-relative folder the plugin is installed in
+ */
+export function getPluginDir(app: App): string {
+  return pluginDir ?? normalizePath(`${app.vault.configDir}/plugins/leafpress`);
+}
+
+/**
+ * Vault-relative folder for the plugin's data: deploy history, snapshots,
+ * site profiles, deploy targets and the deploy stage
+ */
+export function getDataDir(app: App): string {
+  return `${getPluginDir(app)}/data`;
+}
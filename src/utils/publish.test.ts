@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { compileIgnorePattern, getSkipReason, matchesIgnorePattern, PublishRules } from "./publish";
+
+const matches = (pattern: string, filePath: string) => matchesIgnorePattern(filePath, compileIgnorePattern(pattern));
+
+describe("matchesIgnorePattern", () => {
+  it("anchors a bare name at the vault root", () => {
+    expect(matches("templates", "templates/daily.md")).toBe(true);
+    expect(matches("templates", "templates")).toBe(true);
+    expect(matches("templates", "notes/templates/daily.md")).toBe(false);
+    expect(matches("templates", "templates-old/daily.md")).toBe(false);
+  });
+
+  it("matches * within one folder and ? as one character", () => {
+    expect(matches("*.tmp", "scratch.tmp")).toBe(true);
+    expect(matches("*.tmp", "notes/scratch.tmp")).toBe(false);
+    expect(matches("draft-?.md", "draft-1.md")).toBe(true);
+    expect(matches("draft-?.md", "draft-10.md")).toBe(false);
+  });
+
+  it("matches ** across folders", () => {
+    expect(matches("**/*.tmp", "scratch.tmp")).toBe(true);
+    expect(matches("**/*.tmp", "notes/a/b/scratch.tmp")).toBe(true);
+    expect(matches("notes/private/**", "notes/private/a/b.md")).toBe(true);
+    expect(matches("notes/**/secret.md", "notes/secret.md")).toBe(true);
+    expect(matches("notes/**/secret.md", "notes/a/b/secret.md")).toBe(true);
+    expect(matches("notes/private/**", "notes/public/a.md")).toBe(false);
+  });
+
+  it("excludes everything inside a matching folder", () => {
+    expect(matches("notes/private", "notes/private/a/b.md")).toBe(true);
+    expect(matches("notes/private", "notes/privateer.md")).toBe(false);
+  });
+
+  it("accepts ./, trailing slashes and backslashes", () => {
+    expect(matches("./templates/", "templates/daily.md")).toBe(true);
+    expect(matches("notes\\private", "notes/private/a.md")).toBe(true);
+  });
+
+  it("treats regex characters literally", () => {
+    expect(matches("notes (old)", "notes (old)/a.md")).toBe(true);
+    expect(matches("a+b.md", "aab.md")).toBe(false);
+  });
+});
+
+describe("getSkipReason", () => {
+  const rules: PublishRules = {
+    reservedPaths: new Set(["_site", "node_modules", "static"]),
+    skipFiles: new Set([".DS_Store", "Thumbs.db"]),
+    ignorePatterns: ["templates", "**/*.tmp"].map(compileIgnorePattern),
+  };
+
+  it("says why a file isn't published", () => {
+    expect(getSkipReason(".trash/a.md", rules)).toBe("hidden");
+    expect(getSkipReason("notes/.hidden.md", rules)).toBe("hidden");
+    expect(getSkipReason("_site/index.md", rules)).toBe("reserved");
+    expect(getSkipReason("node_modules/pkg/readme.md", rules)).toBe("reserved");
+    expect(getSkipReason("notes/Thumbs.db", rules)).toBe("reserved");
+    expect(getSkipReason("templates/daily.md", rules)).toBe("ignored");
+    expect(getSkipReason("notes/scratch.tmp", rules)).toBe("ignored");
+  });
+
+  it("publishes everything else", () => {
+    expect(getSkipReason("notes/a.md", rules)).toBeNull();
+    expect(getSkipReason("notes/templates/a.md", rules)).toBeNull();
+    expect(getSkipReason("static.md", rules)).toBeNull();
+    expect(getSkipReason("/index.md", rules)).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+import { App, TFile } from "obsidian";
+import { readLeafpressConfig } from "./config";
+
+// Why a file is left out of the published site
+export type SkipReason = "hidden" | "reserved" | "ignored" | "draft";
+
+export interface PublishRules {
+  reservedPaths: Set<string>;
+  skipFiles: Set<string>;
+  ignorePatterns: IgnorePattern[];
+}
+
+export interface IgnorePattern {
+  source: string;
+  regex: RegExp;
+}
+
+/**
+ * Compile an `ignore` entry from leafpress.json. Patterns are anchored at the
+ * vault root, so a bare name (`templates`) only matches a top-level folder or
+ * file, as before globs were supported:
+ * - `*` matches within a path segment, `**` across segments, `?` one character
+ * - `**` followed by a slash matches any number of folders, so a pattern starting
+ *   with it matches at any depth
+ * - a pattern matching a folder excludes everything inside it
+ */
+export function compileIgnorePattern(pattern: string): IgnorePattern {
+  const source = pattern.trim();
+  const normalized = source.replace(/\\/g, "/").replace(/^\.?\//, "").replace(/\/+$/, "");
+
+  let regex = "";
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+    if (char === "*") {
+      if (normalized[i + 1] === "*") {
+        // "**/" matches zero or more folders, a trailing "**" everything below
+        if (normalized[i + 2] === "/") {
+          regex += "(?:.*/)?";
+          i += 2;
+        } else {
+          regex += ".*";
+          i += 1;
+        }
+      } else {
+        regex += "[^/]*";
+      }
+    } else if (char === "?") {
+      regex += "[^/]";
+    } else {
+      regex += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return { source, regex: new RegExp(`^${regex}$`) };
+}
+
+/**
+ * Whether a vault-relative path, or any folder containing it, matches the pattern
+ */
+export function matchesIgnorePattern(filePath: string, pattern: IgnorePattern): boolean {
+  const parts = filePath.replace(/^\//, "").split("/");
+
+  for (let i = 0; i < parts.length; i++) {
+    if (pattern.regex.test(parts.slice(0, i + 1).join("/"))) return true;
+  }
+  return false;
+}
+
+/**
+ * Load the rules the CLI uses to decide which files are published
+ */
+export async function loadPublishRules(app: App): Promise<PublishRules> {
+  const configDir = app.vault.configDir;
+
+  // Load config to get ignore patterns and output directory
+  const config = await readLeafpressConfig(app);
+  const ignorePatterns = (config?.ignore || [])
+    .filter((pattern) => pattern.trim().length > 0)
+    .map(compileIgnorePattern);
+  const outputDir = config?.outputDir || "_site";
+
+  // Reserved paths (matching backend logic from leafpress CLI)
+  const reservedPaths = new Set([
+    "leafpress.json",
+    "style.css",
+    "static",
+    "_site",
+    ".leafpress",
+    ".git",
+    ".gitignore",
+    configDir,
+    "node_modules",
+    "docs",
+    outputDir,
+  ]);
+
+  // Files to skip (matching backend)
+  const skipFiles = new Set([
+    ".leafpress-deploy-state.json",
+    ".DS_Store",
+    "Thumbs.db",
+  ]);
+
+  return { reservedPaths, skipFiles, ignorePatterns };
+}
+
+/**
+ * Why a vault path is not published, or null if the CLI would publish it.
+ * Does not look at frontmatter; see getNoteSkipReason for drafts.
+ */
+export function getSkipReason(filePath: string, rules: PublishRules): SkipReason | null {
+  const pathParts = filePath.replace(/^\//, "").split("/");
+  const fileName = pathParts[pathParts.length - 1];
+  const topLevelDir = pathParts[0];
+
+  if (pathParts.length > 1) {
+    // Skip hidden directories
+    if (topLevelDir.startsWith(".")) return "hidden";
+    // Skip reserved paths
+    if (rules.reservedPaths.has(topLevelDir)) return "reserved";
+  }
+
+  // Skip hidden and specific files
+  if (fileName.startsWith(".")) return "hidden";
+  if (rules.skipFiles.has(fileName)) return "reserved";
+
+  // Skip user-configured ignore patterns
+  for (const pattern of rules.ignorePatterns) {
+    if (matchesIgnorePattern(filePath, pattern)) return "ignored";
+  }
+
+  return null;
+}
+
+/**
+ * Whether a note is marked `draft: true` in its frontmatter
+ */
+export function isDraft(app: App, file: TFile): boolean {
+  const draft: unknown = app.metadataCache.getFileCache(file)?.frontmatter?.draft;
+  return draft === true || draft === "true";
+}
+
+/**
+ * Like getSkipReason, but also treats draft notes as unpublished
+ */
+export function getNoteSkipReason(app: App, file: TFile, rules: PublishRules): SkipReason | null {
+  const reason = getSkipReason(file.path, rules);
+  if (reason) return reason;
+  if (file.extension === "md" && isDraft(app, file)) return "draft";
+  return null;
+}
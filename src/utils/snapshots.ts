@@ -0,0 +1,79 @@
+import { App } from "obsidian";
+import { readDeployState, sha1Hash } from "./deploy-state";
+import { getDataDir } from "./plugin-dir";
+
+/**
+ * Deployed copies of source files, stored by content hash so that the
+ * hashes in the deploy state file can be looked up directly
+ */
+function getSnapshotDir(app: App): string {
+  return `${getDataDir(app)}/snapshots`;
+}
+
+function getSnapshotPath(app: App, hash: string): string {
+  return `${getSnapshotDir(app)}/${hash}`;
+}
+
+export async function readSnapshot(app: App, hash: string): Promise<string | null> {
+  try {
+    return await app.vault.adapter.read(getSnapshotPath(app, hash));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save the content of every source file recorded in the deploy state
+ * (statePath, defaulting to the CLI's). Call right after a successful deploy,
+ * while the files still match what was shipped. Returns the hashes now
+ * referenced by the deploy state.
+ */
+export async function saveDeploySnapshots(app: App, statePath?: string): Promise<Set<string>> {
+  const adapter = app.vault.adapter;
+  const dir = getSnapshotDir(app);
+  const referenced = new Set<string>();
+
+  const deployState = await readDeployState(app, statePath);
+  const sourceFiles = deployState?.lastDeploy?.sourceFiles ?? {};
+
+  if (!(await adapter.exists(dir))) {
+    await adapter.mkdir(dir);
+  }
+
+  for (const [file, hash] of Object.entries(sourceFiles)) {
+    referenced.add(hash);
+    const snapshotPath = getSnapshotPath(app, hash);
+    if (await adapter.exists(snapshotPath)) continue;
+
+    try {
+      const content = await adapter.read(file.replace(/^\//, ""));
+      // The file changed since the CLI hashed it, so this isn't what was deployed
+      if (sha1Hash(content) !== hash) continue;
+      await adapter.write(snapshotPath, content);
+    } catch {
+      // File may have been deleted since the deploy
+    }
+  }
+
+  return referenced;
+}
+
+/**
+ * Delete snapshots whose hash isn't in keep
+ */
+export async function pruneSnapshots(app: App, keep: Set<string>): Promise<void> {
+  const adapter = app.vault.adapter;
+  const dir = getSnapshotDir(app);
+
+  try {
+    const { files } = await adapter.list(dir);
+    for (const file of files) {
+      const hash = file.substring(file.lastIndexOf("/") + 1);
+      if (!keep.has(hash)) {
+        await adapter.remove(file);
+      }
+    }
+  } catch {
+    // Snapshot directory may not exist yet
+  }
+}
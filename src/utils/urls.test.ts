@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { App, TFile } from "obsidian";
+import { formatLink, getNotePagePath, slugify } from "./urls";
+
+/**
+ * A note at path, with the given frontmatter
+ */
+function note(path: string, frontmatter: Record<string, unknown> = {}): { app: App; file: TFile } {
+  const slash = path.lastIndexOf("/");
+  const folder = slash === -1 ? "" : path.substring(0, slash);
+  const name = path.substring(slash + 1);
+  const file = Object.assign(new TFile(), {
+    path,
+    basename: name.replace(/\.md$/, ""),
+    extension: "md",
+    parent: { path: folder || "/", isRoot: () => !folder },
+  });
+  const app = { metadataCache: { getFileCache: () => ({ frontmatter }) } } as unknown as App;
+  return { app, file };
+}
+
+describe("slugify", () => {
+  it("lowercases, hyphenates and drops punctuation", () => {
+    expect(slugify("My Note")).toBe("my-note");
+    expect(slugify("  What's New?  ")).toBe("whats-new");
+    expect(slugify("snake_case and  spaces")).toBe("snake-case-and-spaces");
+    expect(slugify("a - b -- c")).toBe("a-b-c");
+    expect(slugify("-Leading and trailing-")).toBe("leading-and-trailing");
+  });
+
+  it("keeps letters and digits from any script", () => {
+    expect(slugify("Café 2024")).toBe("café-2024");
+    expect(slugify("日本語 ノート")).toBe("日本語-ノート");
+  });
+});
+
+describe("getNotePagePath", () => {
+  it("slugifies the folders and the note's name", () => {
+    const { app, file } = note("Projects/My Note.md");
+    expect(getNotePagePath(app, file)).toBe("/projects/my-note/");
+  });
+
+  it("makes index notes their folder's page", () => {
+    const inFolder = note("Projects/index.md");
+    expect(getNotePagePath(inFolder.app, inFolder.file)).toBe("/projects/");
+    const atRoot = note("index.md");
+    expect(getNotePagePath(atRoot.app, atRoot.file)).toBe("/");
+  });
+
+  it("uses a frontmatter slug in place of the note's name", () => {
+    const { app, file } = note("Projects/My Note.md", { slug: "Launch/Day One" });
+    expect(getNotePagePath(app, file)).toBe("/projects/launch/day-one/");
+  });
+
+  it("ignores an empty slug", () => {
+    const { app, file } = note("Notes.md", { slug: "  " });
+    expect(getNotePagePath(app, file)).toBe("/notes/");
+  });
+
+  it("percent-encodes non-ASCII slugs", () => {
+    const { app, file } = note("Café.md");
+    expect(getNotePagePath(app, file)).toBe("/caf%C3%A9/");
+  });
+});
+
+describe("formatLink", () => {
+  it("writes markdown and HTML links", () => {
+    expect(formatLink("https://example.com/a (b)/", "A [note]", "markdown")).toBe(
+      "[A \\[note\\]](https://example.com/a%20%28b%29/)"
+    );
+    expect(formatLink("https://example.com/?a=1&b=2", "<A>", "html")).toBe(
+      '<a href="https://example.com/?a=1&amp;b=2">&lt;A&gt;</a>'
+    );
+    expect(formatLink("https://example.com/", "A", "url")).toBe("https://example.com/");
+  });
+});
@@ -0,0 +1,108 @@
+import { App, TFile } from "obsidian";
+import { readLeafpressConfig } from "./config";
+import { readDeployState } from "./deploy-state";
+import { getDeployUrl } from "./deploy-settings";
+
+export type LinkFormat = "url" | "markdown" | "html";
+
+// A heading or block within a page
+export interface PageAnchor {
+  id: string;
+  text: string;
+}
+
+/**
+ * Turn one path segment into a URL slug the way the CLI does: lowercase,
+ * whitespace to hyphens, punctuation dropped, repeated hyphens collapsed
+ */
+export function slugify(segment: string): string {
+  return segment
+    .normalize("NFC")
+    .toLowerCase()
+    .trim()
+    .replace(/[\s_]+/g, "-")
+    .replace(/[^\p{L}\p{N}-]+/gu, "")
+    .replace(/-{2,}/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Site path of the page the CLI writes for a note, e.g.
+ * `Projects/My Note.md` -> `/projects/my-note/`. An `index.md` becomes its
+ * folder's page, and a `slug` in the frontmatter replaces the note's name.
+ */
+export function getNotePagePath(app: App, file: TFile): string {
+  const folders = file.parent && !file.parent.isRoot() ? file.parent.path.split("/") : [];
+  const segments = folders.map(slugify);
+
+  const slug: unknown = app.metadataCache.getFileCache(file)?.frontmatter?.slug;
+  if (typeof slug === "string" && slug.trim()) {
+    segments.push(...slug.trim().split("/").map(slugify));
+  } else if (file.basename.toLowerCase() !== "index") {
+    segments.push(slugify(file.basename));
+  }
+
+  const path = segments.filter((segment) => segment.length > 0).join("/");
+  return path ? `/${encodeURI(path)}/` : "/";
+}
+
+/**
+ * Public address of the site: baseURL from leafpress.json, falling back to
+ * the URL of the last deploy, or where the provider's settings publish to
+ * once deployed. Returned without a trailing slash.
+ */
+export async function getLiveSiteUrl(app: App): Promise<string | null> {
+  const config = await readLeafpressConfig(app);
+  const baseURL = config?.baseURL?.trim();
+  if (baseURL) return baseURL.replace(/\/+$/, "");
+
+  const deployState = await readDeployState(app);
+  const deployedUrl = deployState?.lastDeploy?.url?.trim();
+  if (deployedUrl) return deployedUrl.replace(/\/+$/, "");
+  return deployState?.lastDeploy ? getDeployUrl(config?.deploy) : null;
+}
+
+/**
+ * The heading or block on a line of a note, as an anchor on its page.
+ * Heading ids follow the CLI: slugified text, with `-1`, `-2`, ... added to
+ * repeated headings. Blocks keep their `^id`.
+ */
+export function getAnchorAtLine(app: App, file: TFile, line: number): PageAnchor | null {
+  const cache = app.metadataCache.getFileCache(file);
+
+  const block = Object.values(cache?.blocks ?? {}).find(
+    (candidate) => candidate.position.start.line <= line && candidate.position.end.line >= line
+  );
+  if (block) return { id: `^${block.id}`, text: file.basename };
+
+  const seen = new Map<string, number>();
+  for (const heading of cache?.headings ?? []) {
+    const slug = slugify(heading.heading);
+    const count = seen.get(slug) ?? 0;
+    seen.set(slug, count + 1);
+    if (heading.position.start.line === line) {
+      return { id: count === 0 ? slug : `${slug}-${count}`, text: heading.heading };
+    }
+  }
+  return null;
+}
+
+/**
+ * Write a link in the chosen format
+ */
+export function formatLink(url: string, text: string, format: LinkFormat): string {
+  switch (format) {
+    case "markdown":
+      return `[${text.replace(/([[\]\\])/g, "\\$1")}](${url
+        .replace(/\(/g, "%28")
+        .replace(/\)/g, "%29")
+        .replace(/\s/g, "%20")})`;
+    case "html": {
+      const escape = (value: string) =>
+        value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+      return `<a href="${escape(url)}">${escape(text)}</a>`;
+    }
+    default:
+      return url;
+  }
+}
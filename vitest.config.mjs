@@ -0,0 +1,12 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // The obsidian package only ships types; tests get a stand-in for its runtime API
+    alias: { obsidian: fileURLToPath(new URL("./src/__mocks__/obsidian.ts", import.meta.url)) },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+  },
+});